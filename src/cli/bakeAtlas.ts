@@ -0,0 +1,125 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DefaultEventEmitter } from '@/lib/events/defaultEventEmitter';
+import { getAtlasLayout } from '@/lib/services/dataTexture/atlasLayout';
+import { encodeBakedAtlas } from '@/lib/services/dataTexture/bakedAtlasFormat';
+import { DataTextureService } from '@/lib/services/dataTexture/dataTextureService';
+import { MeshCorrespondence, MeshSamplingMode, MeshSamplingOptions } from '@/lib/types';
+import * as THREE from 'three';
+import { GLTFLoader } from 'three-stdlib';
+
+const USAGE = `Usage: ionian-bake [options] <mesh.glb>...
+
+Samples meshes into a mesh sequence atlas like ParticlesEngine.setMeshSequence, and writes it as an .ionian file for ParticlesEngine.loadBakedAtlas.
+Each file contributes its first mesh, or the mesh named after a #, e.g. model.glb#Body. The mesh IDs default to the file names.
+Baking with the IDs and seed of the engine yields the samples the engine would produce. Texture maps cannot be read here,
+so the baked colors only combine vertex and material colors.
+Needs the three and three-stdlib packages, the peer dependencies of ionian, installed next to it,
+e.g. npm install three three-stdlib @polarfront-lab/ionian && npx ionian-bake model.glb.
+
+Options:
+  -o, --out <file>              Output file. Defaults to atlas.ionian.
+  -s, --size <n>                Texture size of the engine. Defaults to 256.
+      --seed <n>                Sampling seed. Defaults to 0.
+      --ids <a,b,...>           Mesh IDs, one per file.
+      --correspondence <mode>   none, curve or assignment. Defaults to none.
+      --mode <mode>             surface, volume or mixed sampling. Defaults to surface.
+      --interior-ratio <r>      Share of particles inside the meshes for mixed sampling. Defaults to 0.3.
+  -h, --help                    Show this help.`;
+
+const CORRESPONDENCES: MeshCorrespondence[] = ['none', 'curve', 'assignment'];
+const SAMPLING_MODES: MeshSamplingMode[] = ['surface', 'volume', 'mixed'];
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: 'atlas.ionian' },
+      size: { type: 'string', short: 's', default: '256' },
+      seed: { type: 'string', default: '0' },
+      ids: { type: 'string' },
+      correspondence: { type: 'string', default: 'none' },
+      mode: { type: 'string', default: 'surface' },
+      'interior-ratio': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const size = parseInteger(values.size, 'size', 1);
+  const seed = parseInteger(values.seed, 'seed', 0);
+  const correspondence = parseChoice(values.correspondence, CORRESPONDENCES, 'correspondence');
+  const samplingOptions: MeshSamplingOptions = { mode: parseChoice(values.mode, SAMPLING_MODES, 'mode') };
+  if (values['interior-ratio'] !== undefined) samplingOptions.interiorRatio = Number(values['interior-ratio']);
+  const ids = values.ids?.split(',') ?? positionals.map((input) => basename(input.split('#')[0], extname(input.split('#')[0])));
+  if (ids.length !== positionals.length) throw new Error(`got ${ids.length} IDs for ${positionals.length} files.`);
+
+  const meshes = await Promise.all(positionals.map((input, i) => loadMesh(input, ids[i])));
+
+  const eventEmitter = new DefaultEventEmitter();
+  eventEmitter.on('invalidRequest', ({ message }) => console.warn(`warning: ${message}`));
+  const dataTextureService = new DataTextureService(eventEmitter, size, seed, 0);
+  const atlas = await dataTextureService.createSequenceDataTextureAtlas(
+    meshes,
+    getAtlasLayout(size, meshes.length), // baked atlases are a single row
+    meshes.map(() => samplingOptions),
+    correspondence,
+  );
+  const buffer = encodeBakedAtlas({
+    textureSize: size,
+    meshIDs: ids,
+    seed,
+    correspondence,
+    positions: atlas.positions.image.data as Float32Array,
+    normals: atlas.normals.image.data as Float32Array,
+    colors: atlas.colors.image.data as Float32Array,
+  });
+  await writeFile(values.out, new Uint8Array(buffer));
+  await dataTextureService.dispose();
+
+  console.log(`Baked ${ids.join(', ')} at ${size}x${size} into ${values.out} (${(buffer.byteLength / 1024 / 1024).toFixed(1)} MB).`);
+  return 0;
+}
+
+/**
+ * Loads a mesh from a GLB file, named like the engine names registered meshes.
+ * @param input The file path, optionally followed by # and the name of the mesh.
+ * @param id The mesh ID.
+ */
+async function loadMesh(input: string, id: string): Promise<THREE.Mesh> {
+  const [path, meshName] = input.split('#');
+  const file = await readFile(path);
+  const buffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+  const gltf = await new GLTFLoader().parseAsync(buffer, '');
+
+  let mesh: THREE.Mesh | undefined;
+  gltf.scene.traverse((object) => {
+    if (!mesh && object instanceof THREE.Mesh && (!meshName || object.name === meshName)) mesh = object;
+  });
+  if (!mesh) throw new Error(meshName ? `${path} has no mesh named "${meshName}".` : `${path} has no mesh.`);
+  mesh.name = id;
+  return mesh;
+}
+
+function parseInteger(value: string, name: string, min: number): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) throw new Error(`--${name} must be an integer of at least ${min}, got "${value}".`);
+  return number;
+}
+
+function parseChoice<T extends string>(value: string, choices: T[], name: string): T {
+  if (!choices.includes(value as T)) throw new Error(`--${name} must be one of ${choices.join(', ')}, got "${value}".`);
+  return value as T;
+}
+
+main().then(
+  (exitCode) => (process.exitCode = exitCode),
+  (error) => {
+    console.error(`ionian-bake: ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  },
+);
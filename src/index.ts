@@ -1,3 +1,10 @@
 export { ParticlesEngine } from '@/lib/particlesEngine';
+export { PRESET_VERSION } from '@/lib/presets';
+export { decodeBakedAtlas, encodeBakedAtlas } from '@/lib/services/dataTexture/bakedAtlasFormat';
+export { IndexedDBSampleCache, MemorySampleCache } from '@/lib/services/dataTexture/sampleCache';
+export type { SampleCacheStorage } from '@/lib/services/dataTexture/sampleCache';
+export { CpuSimulationBackend } from '@/lib/services/simulation/cpuSimulationBackend';
+export { MAX_INTERACTION_POINTS } from '@/lib/services/simulation/simulationBackend';
+export type { SimulationBackend } from '@/lib/services/simulation/simulationBackend';
 export * from '@/lib/types';
 export * from '@/lib/events/topics';
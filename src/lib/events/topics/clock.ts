@@ -0,0 +1,10 @@
+export type ClockEvents = {
+  /** simulation clock paused */
+  clockPaused: Record<string, never>;
+
+  /** simulation clock resumed */
+  clockResumed: Record<string, never>;
+
+  /** simulation time scale changed */
+  timeScaleUpdated: { timeScale: number };
+};
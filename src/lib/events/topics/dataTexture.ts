@@ -1,3 +1,7 @@
 export type DataTextureEvents = {
   meshRegistered: { id: string };
+  /** the samples of a mesh were found in the sample cache, see SampleCacheStorage */
+  sampleCacheHit: { id: string; key: string };
+  /** the samples of a mesh were not in the sample cache and are being sampled */
+  sampleCacheMiss: { id: string; key: string };
 };
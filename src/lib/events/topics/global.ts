@@ -2,7 +2,11 @@ import { ServiceState, ServiceType } from '@/lib/types';
 import * as THREE from 'three';
 
 export type GlobalEvents = {
-  serviceStateUpdated: { type: ServiceType; state: ServiceState };
+  /** progress from 0 to 1 while a service is loading, for services that report it */
+  serviceStateUpdated: { type: ServiceType; state: ServiceState; progress?: number };
+  /** intersection of the first pointer, w=0 when there is none */
   interactionPositionUpdated: { position: THREE.Vector4Like };
+  /** intersections of all pointers that hit the geometry, their velocities (units / s) and the camera direction, all in simulation space */
+  interactionPositionsUpdated: { positions: THREE.Vector4Like[]; velocities: THREE.Vector3Like[]; viewDirection: THREE.Vector3Like };
   invalidRequest: { message: string };
 };
@@ -1,8 +1,9 @@
 import { AssetEvents } from '@/lib/events/topics/asset';
+import { ClockEvents } from '@/lib/events/topics/clock';
 import { TransitionEvents } from '@/lib/events/topics/transition';
 import { DataTextureEvents } from './dataTexture';
 import { GlobalEvents } from './global';
 import { MaterialTextureEvents } from './texture';
 import { SimulationEvents } from './simulation';
 
-export type Events = GlobalEvents & SimulationEvents & DataTextureEvents & MaterialTextureEvents & TransitionEvents & AssetEvents;
+export type Events = GlobalEvents & SimulationEvents & DataTextureEvents & MaterialTextureEvents & TransitionEvents & AssetEvents & ClockEvents;
@@ -1,22 +1,54 @@
 import { linear } from '@/lib/easing';
+import { Events } from '@/lib/events';
 import { DefaultEventEmitter } from '@/lib/events/defaultEventEmitter';
+import { createPreset, migratePreset, partitionTextureSequence } from '@/lib/presets';
 import { AssetService } from '@/lib/services/assets/assetService';
-import { DataTextureService } from '@/lib/services/dataTexture/dataTextureService';
+import { ClockService } from '@/lib/services/clock/clockService';
+import { AtlasLayout, getAtlasLayout, getAtlasTexels, readAtlasCell } from '@/lib/services/dataTexture/atlasLayout';
+import { decodeBakedAtlas } from '@/lib/services/dataTexture/bakedAtlasFormat';
+import { DataTextureService, SequenceAtlas } from '@/lib/services/dataTexture/dataTextureService';
+import { SampleCacheStorage } from '@/lib/services/dataTexture/sampleCache';
 import { InstancedMeshManager } from '@/lib/services/instancedmesh/instancedMeshManager';
 import { IntersectionService } from '@/lib/services/intersection/intersectionService';
+import { bakeSignedDistanceField, SignedDistanceField } from '@/lib/services/simulation/signedDistanceField';
 import { SimulationRendererService } from '@/lib/services/simulation/simulationRendererService';
+import { measureStaggerRange } from '@/lib/services/simulation/stagger';
 import { TransitionService } from '@/lib/services/transition/transitionService';
 import {
+  BakedAtlas,
+  Collider,
   EasingFunction,
+  EnginePreset,
+  ForceField,
+  ForceFieldFalloff,
+  ImageTargetOptions,
+  ImageTargetSource,
+  InitialDistribution,
+  InteractionMode,
+  LifecycleOptions,
+  MeshCorrespondence,
+  MeshSamplingOptions,
+  MeshSequenceTransitionOptions,
+  MorphPath,
+  ParticleAppearance,
+  ParticleReadback,
+  PointCloudData,
+  PointerId,
+  ReadParticlesOptions,
   ServiceState,
   ServiceType,
+  ShaderHooks,
+  SimulationBackendType,
+  SimulationState,
+  StaggerOptions,
+  SvgTargetOptions,
   TextureSequence,
   TextureSequenceItem,
   TransitionDetail,
   TransitionOptions
 } from '@/lib/types';
 import { EngineState } from '@/lib/types/state';
-import { clamp } from '@/lib/utils';
+import { clamp, createRandom, hashString } from '@/lib/utils';
 import * as THREE from 'three';
 
 /**
@@ -25,9 +57,30 @@ import * as THREE from 'three';
 type ParticlesEngineParameters = {
   textureSize: number;
   scene: THREE.Scene;
-  renderer: THREE.WebGLRenderer;
+  /** Required by the gpu simulation backend. */
+  renderer?: THREE.WebGLRenderer;
   camera?: THREE.Camera;
   useIntersection?: boolean;
+  /** Seeds every random source (initial layout, mesh sampling, per-particle jitter) for reproducible layouts. */
+  seed?: number;
+  /** Duration of a single simulation step, in seconds. Defaults to 1/60. */
+  fixedTimeStep?: number;
+  /** Maximum number of simulation steps per rendered frame. Defaults to 5. */
+  maxSubSteps?: number;
+  /** Custom GLSL injected into the simulation and instance shaders. */
+  shaderHooks?: ShaderHooks;
+  /** Runs the simulation on the GPU (default) or on the CPU, e.g. without float texture support. Shader hooks only apply to the instance shaders on the CPU. */
+  simulationBackend?: SimulationBackendType;
+  /** Layout of the particles when the simulation is created, and when it is resized without preserving the state. Defaults to a sphere surface. */
+  initialDistribution?: InitialDistribution;
+  /** Carries the particle positions and velocities over when the texture size changes, instead of restarting the motion. Defaults to true. */
+  preserveStateOnResize?: boolean;
+  /** Matches up the samples of neighboring meshes in the sequence when its atlas is built, so morphs look like a shape change. Defaults to none. */
+  meshCorrespondence?: MeshCorrespondence;
+  /** Number of web workers that sample meshes and build the sequence atlas. 0 keeps the work on the main thread. Defaults to cores - 1, at most 4. */
+  samplingWorkers?: number;
+  /** Keeps sampled meshes across texture size changes, keyed by their contents. Defaults to 128 MiB in memory; IndexedDBSampleCache survives reloads. */
+  sampleCache?: SampleCacheStorage;
 };
 
 type ServiceStates = Record<ServiceType, ServiceState>;
@@ -37,7 +90,7 @@ type ServiceStates = Record<ServiceType, ServiceState>;
  */
 export class ParticlesEngine {
   private simulationRendererService: SimulationRendererService;
-  private renderer: THREE.WebGLRenderer;
+  private renderer?: THREE.WebGLRenderer;
 
   private scene: THREE.Scene;
   private serviceStates: ServiceStates;
@@ -48,11 +101,21 @@ export class ParticlesEngine {
   private instancedMeshManager: InstancedMeshManager;
 
   private transitionService: TransitionService;
+  private clockService: ClockService;
   private engineState: EngineState;
 
   private intersectionService: IntersectionService;
 
-  private meshSequenceAtlasTexture: THREE.DataTexture | null = null; // ADDED: To store the generated atlas
+  private meshSequenceAtlas: SequenceAtlas | null = null; // ADDED: To store the generated atlases
+  private meshSequenceRequest = 0; // the latest setMeshSequence call, as the atlas builds asynchronously
+  private transitionMorphPath: MorphPath | null = null; // Path of the running mesh sequence transition, if it overrides the default
+  private shaderHooks?: ShaderHooks;
+  private signedDistanceFields = new Map<string, SignedDistanceField>(); // Baked collider fields, keyed by mesh UUID and resolution
+  private readonly preserveStateOnResize: boolean;
+  private readonly simulationBackend: SimulationBackendType;
+  private readonly initialDistribution: InitialDistribution;
+  private readonly meshCorrespondence: MeshCorrespondence;
+  private pendingFirstMeshPlacement: boolean; // the first-mesh layout waits for a mesh sequence
 
   public eventEmitter: DefaultEventEmitter;
 
@@ -61,7 +124,22 @@ export class ParticlesEngine {
    * @param params The parameters for creating the instance.
    */
   constructor(params: ParticlesEngineParameters) {
-    const { scene, renderer, camera, textureSize, useIntersection = true } = params;
+    const {
+      scene,
+      renderer,
+      camera,
+      textureSize,
+      useIntersection = true,
+      seed,
+      fixedTimeStep,
+      maxSubSteps,
+      simulationBackend = 'gpu',
+      preserveStateOnResize = true,
+      initialDistribution = { type: 'sphere' },
+      meshCorrespondence = 'none',
+      samplingWorkers,
+      sampleCache,
+    } = params;
 
     this.eventEmitter = new DefaultEventEmitter();
     this.serviceStates = this.getInitialServiceStates();
@@ -69,37 +147,72 @@ export class ParticlesEngine {
 
     this.scene = scene;
     this.renderer = renderer;
+    this.preserveStateOnResize = preserveStateOnResize;
+    this.simulationBackend = simulationBackend;
+    this.initialDistribution = initialDistribution;
+    this.meshCorrespondence = meshCorrespondence;
+    this.pendingFirstMeshPlacement = initialDistribution.type === 'first-mesh';
     this.engineState = this.initialEngineState(params);
 
     this.assetService = new AssetService(this.eventEmitter);
     this.transitionService = new TransitionService(this.eventEmitter);
-    this.dataTextureManager = new DataTextureService(this.eventEmitter, textureSize);
-    this.simulationRendererService = new SimulationRendererService(this.eventEmitter, textureSize, this.renderer);
+    this.clockService = new ClockService(this.eventEmitter, { fixedTimeStep, maxSubSteps });
+    this.dataTextureManager = new DataTextureService(this.eventEmitter, textureSize, seed, samplingWorkers, sampleCache);
+    this.simulationRendererService = new SimulationRendererService(this.eventEmitter, textureSize, this.renderer, seed, simulationBackend, initialDistribution);
     this.instancedMeshManager = new InstancedMeshManager(textureSize);
     this.scene.add(this.instancedMeshManager.getMesh());
+    if (params.shaderHooks) this.setShaderHooks(params.shaderHooks);
 
     this.intersectionService = new IntersectionService(this.eventEmitter, camera);
     if (!useIntersection) this.intersectionService.setActive(false);
     this.setOverallProgress(0, false);
 
-    this.eventEmitter.on('interactionPositionUpdated', this.handleInteractionPositionUpdated.bind(this));
+    this.eventEmitter.on('interactionPositionsUpdated', this.handleInteractionPositionsUpdated.bind(this));
   }
 
   /**
    * Renders the scene.
-   * @param elapsedTime The elapsed time since the last frame.
+   * The simulation advances in fixed steps, so its speed does not depend on the frame rate.
+   * @param elapsedTime The current timestamp in milliseconds, e.g. the requestAnimationFrame timestamp.
    */
-
   render(elapsedTime: number) {
-    const dt = elapsedTime / 1000.0; // Convert to seconds
-    this.transitionService.compute(dt);
-    this.intersectionService.calculate(this.instancedMeshManager.getMesh());
-    this.simulationRendererService.compute(dt); // Use seconds
-    this.instancedMeshManager.update(dt); // Use seconds
+    const steps = this.clockService.tick(elapsedTime);
+    const time = this.clockService.getElapsedTime(); // simulated seconds
+    this.transitionService.compute(time);
+    this.intersectionService.calculate(this.instancedMeshManager.getMesh(), time);
+    for (let i = 0; i < steps; i++) {
+      this.simulationRendererService.compute(this.clockService.getFixedTimeStep());
+    }
+    this.instancedMeshManager.update(time);
     this.instancedMeshManager.updateVelocityTexture(this.simulationRendererService.getVelocityTexture());
     this.instancedMeshManager.updatePositionTexture(this.simulationRendererService.getPositionTexture());
   }
 
+  /**
+   * Pauses the simulation, transitions and instance animation. Rendering continues.
+   */
+  pause() {
+    this.clockService.pause();
+    this.engineState.paused = true;
+  }
+
+  /**
+   * Resumes a paused simulation.
+   */
+  resume() {
+    this.clockService.resume();
+    this.engineState.paused = false;
+  }
+
+  /**
+   * Sets the speed of the simulation clock.
+   * @param timeScale 1.0 is real time, 0.5 is half speed, 2.0 is double speed.
+   */
+  setTimeScale(timeScale: number) {
+    this.clockService.setTimeScale(timeScale);
+    this.engineState.timeScale = this.clockService.getTimeScale();
+  }
+
   setTextureSequence(sequence: TextureSequence) {
     this.engineState.textureSequence = sequence;
     this.eventEmitter.emit('textureSequenceUpdated', { sequence });
@@ -112,6 +225,8 @@ export class ParticlesEngine {
       return;
     }
     this.engineState.textureSize = size;
+    const previousState = this.preserveStateOnResize ? await this.captureSimulationState().catch(() => null) : null;
+    if (!previousState && this.initialDistribution.type === 'first-mesh') this.pendingFirstMeshPlacement = true;
 
     // Resize core services
     this.dataTextureManager.setTextureSize(size); // This will clear its cache
@@ -132,17 +247,66 @@ export class ParticlesEngine {
     this.simulationRendererService.setVelocityTractionForce(this.engineState.velocityTractionForce);
     this.simulationRendererService.setPositionalTractionForce(this.engineState.positionalTractionForce);
     this.simulationRendererService.setMaxRepelDistance(this.engineState.maxRepelDistance);
+    this.simulationRendererService.setInteractionMode(this.engineState.interactionMode);
+    this.simulationRendererService.setInteractionStrength(this.engineState.interactionStrength);
+    this.simulationRendererService.setInteractionFalloff(this.engineState.interactionFalloff);
+    this.simulationRendererService.setForceFields(this.engineState.forceFields);
+    this.applyColliders();
+    this.simulationRendererService.setShaderHooks(this.shaderHooks);
+    await this.applyLifecycle(); // the mesh emitter is resampled at the new size
+    this.applyStagger();
+    this.applyMorphPath();
     // Ensure progress is reapplied (setMeshSequence resets it to 0, restore if needed, though usually 0 is correct after resize)
     this.simulationRendererService.setOverallProgress(this.engineState.overallProgress);
     this.intersectionService.setOverallProgress(this.engineState.overallProgress); // Also update intersection
+    if (previousState) this.simulationRendererService.restoreState(previousState); // resampled to the new size
 
     // Update InstancedMeshManager appearance parameters
     this.instancedMeshManager.setGeometrySize(this.engineState.instanceGeometryScale);
     this.setOverallProgress(this.engineState.overallProgress, false);
   }
 
-  registerMesh(id: string, mesh: THREE.Mesh) {
+  /**
+   * Registers a mesh for the mesh sequence, emitters and colliders.
+   * @param id The ID of the mesh.
+   * @param mesh The mesh.
+   * @param options How its surface is sampled, e.g. weighted by vertex colors or by the luminance of a texture.
+   */
+  registerMesh(id: string, mesh: THREE.Mesh, options?: MeshSamplingOptions) {
     this.assetService.register(id, mesh);
+    if (options) this.assetService.setMeshSamplingOptions(id, options);
+  }
+
+  /**
+   * Registers an image as a particle target, so it can take part in the mesh sequence, e.g. a logo that morphs into a 3D model.
+   * The image becomes a flat mesh facing +z whose particle density follows its alpha or luminance, and whose colors are baked into the particles.
+   * @param id The ID of the target.
+   * @param image The image. Its pixels must be readable, so cross-origin images need CORS.
+   * @param options The size, depth and density of the target.
+   */
+  registerImageTarget(id: string, image: ImageTargetSource, options?: ImageTargetOptions) {
+    this.assetService.registerImageTarget(id, image, options);
+  }
+
+  /**
+   * Registers the filled shapes of an SVG drawing as a particle target, so it can take part in the mesh sequence.
+   * The shapes are flat or extruded, face +z, and keep their fill colors.
+   * @param id The ID of the target.
+   * @param svgText The SVG markup.
+   * @param options The size and depth of the target.
+   */
+  registerSvgTarget(id: string, svgText: string, options?: SvgTargetOptions) {
+    this.assetService.registerSvgTarget(id, svgText, options);
+  }
+
+  /**
+   * Registers a point cloud, e.g. a scan, as a particle target for the mesh sequence.
+   * Clouds with more points than particles are subsampled; smaller ones repeat their points. Vertex colors are baked into the particles.
+   * @param id The ID of the point cloud.
+   * @param cloud The point cloud, or its positions and optional linear colors.
+   */
+  registerPointCloud(id: string, cloud: THREE.Points | PointCloudData) {
+    this.assetService.registerPointCloud(id, cloud);
   }
 
   registerMatcap(id: string, matcap: THREE.Texture) {
@@ -153,6 +317,15 @@ export class ParticlesEngine {
     return await this.assetService.loadMeshAsync(id, url);
   }
 
+  /**
+   * Loads a PLY or PCD point cloud and registers it, see registerPointCloud.
+   * @param id The ID of the point cloud.
+   * @param url The URL of the file, ending in .ply or .pcd.
+   */
+  async fetchAndRegisterPointCloud(id: string, url: string) {
+    return await this.assetService.loadPointCloudAsync(id, url);
+  }
+
   async fetchAndRegisterMatcap(id: string, url: string) {
     return await this.assetService.loadTextureAsync(id, url);
   }
@@ -165,7 +338,7 @@ export class ParticlesEngine {
     if (!use) {
       this.engineState.pointerPosition = { x: -99999999, y: -99999999 }; // Keep this for internal state if needed
       // Explicitly send zero interaction to simulation
-      this.simulationRendererService.setInteractionPosition({ x: 0, y: 0, z: 0, w: 0 });
+      this.simulationRendererService.setInteractionPositions([]);
     }
   }
 
@@ -175,6 +348,18 @@ export class ParticlesEngine {
     this.intersectionService.setPointerPosition(position);
   }
 
+  /**
+   * Sets the positions of all active pointers, e.g. the touches on a touch screen.
+   * Each pointer is raycast against the blended geometry and affects particles independently.
+   * @param pointers The pointer positions in normalized device coordinates, keyed by pointer ID. At most MAX_INTERACTION_POINTS are used.
+   */
+  setPointerPositions(pointers: Map<PointerId, THREE.Vector2Like>) {
+    if (!this.engineState.useIntersect) return;
+    const [primary] = pointers.values();
+    if (primary) this.engineState.pointerPosition = primary;
+    this.intersectionService.setPointerPositions(pointers);
+  }
+
   setGeometrySize(geometrySize: THREE.Vector3Like) {
     this.engineState.instanceGeometryScale = geometrySize;
     this.instancedMeshManager.setGeometrySize(geometrySize);
@@ -195,27 +380,158 @@ export class ParticlesEngine {
     this.simulationRendererService.setMaxRepelDistance(distance);
   }
 
+  /**
+   * Sets how pointers affect nearby particles. The radius is set with setMaxRepelDistance.
+   * @param mode 'repel', 'attract', 'swirl' around the pointer, or 'push' along the pointer movement.
+   */
+  setInteractionMode(mode: InteractionMode) {
+    this.engineState.interactionMode = mode;
+    this.simulationRendererService.setInteractionMode(mode);
+  }
+
+  /**
+   * Sets the strength of the pointer interaction. 1.0 is the default, negative values invert repel and attract.
+   */
+  setInteractionStrength(strength: number) {
+    this.engineState.interactionStrength = strength;
+    this.simulationRendererService.setInteractionStrength(strength);
+  }
+
+  /**
+   * Sets how the pointer interaction fades with distance, within the max repel distance.
+   */
+  setInteractionFalloff(falloff: ForceFieldFalloff) {
+    this.engineState.interactionFalloff = falloff;
+    this.simulationRendererService.setInteractionFalloff(falloff);
+  }
+
+  /**
+   * Sets the force fields applied to the particles, replacing any previous ones.
+   * @param fields The force fields. IDs should be unique so fields can be updated later.
+   */
+  setForceFields(fields: ForceField[]) {
+    this.engineState.forceFields = fields.map((field) => ({ ...field }));
+    this.simulationRendererService.setForceFields(this.engineState.forceFields);
+  }
+
+  /**
+   * Sets the colliders particles cannot pass through, replacing any previous ones.
+   * Fields of sdf colliders are baked on first use and cached.
+   * @param colliders The colliders. IDs should be unique so colliders can be updated later.
+   */
+  setColliders(colliders: Collider[]) {
+    this.engineState.colliders = colliders.map((collider) => ({ ...collider }));
+    this.applyColliders();
+  }
+
+  /**
+   * Updates the parameters of a collider at runtime.
+   * @param id The ID of the collider.
+   * @param changes The parameters to change.
+   */
+  updateCollider(id: string, changes: Partial<Omit<Collider, 'id'>>) {
+    const index = this.engineState.colliders.findIndex((collider) => collider.id === id);
+    if (index < 0) {
+      this.eventEmitter.emit('invalidRequest', { message: `collider with id "${id}" not found.` });
+      return;
+    }
+    this.engineState.colliders[index] = { ...this.engineState.colliders[index], ...changes };
+    this.applyColliders();
+  }
+
+  /**
+   * Updates the parameters of a force field at runtime.
+   * @param id The ID of the force field.
+   * @param changes The parameters to change.
+   */
+  updateForceField(id: string, changes: Partial<Omit<ForceField, 'id'>>) {
+    const index = this.engineState.forceFields.findIndex((field) => field.id === id);
+    if (index < 0) {
+      this.eventEmitter.emit('invalidRequest', { message: `force field with id "${id}" not found.` });
+      return;
+    }
+    this.engineState.forceFields[index] = { ...this.engineState.forceFields[index], ...changes };
+    this.simulationRendererService.setForceFields(this.engineState.forceFields);
+  }
+
+  /**
+   * Sets the particle lifecycle: lifetimes, birth rate, where particles respawn and how they render over their life.
+   * @param options The options to change. Omitted options keep their current value.
+   */
+  async setLifecycle(options: Partial<LifecycleOptions>) {
+    this.engineState.lifecycle = { ...this.engineState.lifecycle, ...options };
+    await this.applyLifecycle();
+  }
+
+  /**
+   * Staggers the particles during mesh sequence transitions, so morphs sweep across the object as waves or dissolves.
+   * The range of the distance and axis modes defaults to the extent of the current mesh sequence.
+   * @param options The stagger options. Use `{ mode: 'none' }` to move every particle at once.
+   */
+  setStagger(options: StaggerOptions) {
+    this.engineState.stagger = { ...options };
+    this.applyStagger();
+  }
+
+  /**
+   * Sets the path particles take between the meshes of the sequence, e.g. arcs or a scatter-then-gather explosion.
+   * Mesh sequence transitions may override it for their duration.
+   * @param path The morph path. Use `{ mode: 'linear' }` for straight lines.
+   */
+  setMorphPath(path: MorphPath) {
+    this.engineState.morphPath = { ...path };
+    this.applyMorphPath();
+  }
+
+  /**
+   * Sets how particles take on the surface of the mesh sequence, using the normals and colors baked with the targets.
+   * @param appearance The appearance values to change.
+   */
+  setParticleAppearance(appearance: Partial<ParticleAppearance>) {
+    this.engineState.appearance = { ...this.engineState.appearance, ...appearance };
+    this.instancedMeshManager.setAppearance(this.engineState.appearance);
+  }
+
+  /**
+   * Sets custom GLSL snippets for the named hook points of the simulation and instance shaders.
+   * The affected shaders are rebuilt; the particle state is kept.
+   * @param hooks The hooks, or undefined to remove all hooks.
+   */
+  setShaderHooks(hooks?: ShaderHooks) {
+    this.shaderHooks = hooks;
+    const simulationHooks = Object.keys(hooks?.snippets ?? {}).filter((point) => point.startsWith('velocity_') || point.startsWith('position_'));
+    if (this.simulationBackend === 'cpu' && simulationHooks.length > 0) {
+      this.eventEmitter.emit('invalidRequest', { message: `the cpu simulation backend ignores these shader hooks: ${simulationHooks.join(', ')}` });
+    }
+    const clashes = new Set([...this.simulationRendererService.setShaderHooks(hooks), ...this.instancedMeshManager.setShaderHooks(hooks)]);
+    if (clashes.size > 0) {
+      this.eventEmitter.emit('invalidRequest', { message: `shader hook uniforms clash with built-in uniforms and are ignored: ${[...clashes].join(', ')}` });
+    }
+  }
+
   /**
    * Sets the sequence of meshes for particle transitions.
    * This will generate a texture atlas containing position data for all meshes.
-   * @param meshIDs An array of registered mesh IDs in the desired sequence order.
+   * @param meshIDs An array of registered mesh or point cloud IDs in the desired sequence order.
    */
   async setMeshSequence(meshIDs: string[]) {
+    const request = ++this.meshSequenceRequest;
     if (!meshIDs || meshIDs.length < 1) {
       this.eventEmitter.emit('invalidRequest', { message: 'Mesh sequence must contain at least one mesh ID.' });
       this.engineState.meshSequence = []; // Clear sequence state
       this.intersectionService.setMeshSequence([]); // Clear intersection sequence
       return;
     }
+    if (!this.layOutAtlas(meshIDs.length)) return;
     this.engineState.meshSequence = meshIDs;
     this.engineState.overallProgress = 0; // Reset progress when sequence changes
 
-    // Get valid mesh objects
-    const meshes = meshIDs.map((id) => this.assetService.getMesh(id)).filter((mesh) => mesh !== null) as THREE.Mesh[];
+    // Get valid mesh and point cloud objects
+    const meshes = meshIDs.map((id) => this.assetService.getSequenceTarget(id)).filter((mesh) => mesh !== null);
 
     // Handle missing meshes
     if (meshes.length !== meshIDs.length) {
-      const missing = meshIDs.filter((id) => !this.assetService.getMesh(id));
+      const missing = meshIDs.filter((id) => !this.assetService.getSequenceTarget(id));
       console.warn(`Could not find meshes for IDs: ${missing.join(', ')}. Proceeding with ${meshes.length} found meshes.`);
       this.eventEmitter.emit('invalidRequest', { message: `Could not find meshes for IDs: ${missing.join(', ')}` });
       if (meshes.length < 1) {
@@ -229,30 +545,110 @@ export class ParticlesEngine {
 
     try {
       // Generate the atlas texture
-      this.meshSequenceAtlasTexture = await this.dataTextureManager.createSequenceDataTextureAtlas(meshes, this.engineState.textureSize);
-
-      // Update the simulation renderer
-      this.simulationRendererService.setPositionAtlas({
-        dataTexture: this.meshSequenceAtlasTexture,
-        textureSize: this.engineState.textureSize, // Pass the size of the *output* GPGPU texture
-        numMeshes: this.engineState.meshSequence.length, // Use the potentially updated count
-        singleTextureSize: this.engineState.textureSize // Size of one mesh's data within atlas
-      });
-      // Set initial progress in simulation (should be 0 after sequence change)
-      this.simulationRendererService.setOverallProgress(this.engineState.overallProgress);
-
-      // Update IntersectionService with the valid meshes
-      this.intersectionService.setMeshSequence(meshes);
-      this.intersectionService.setOverallProgress(this.engineState.overallProgress);
-
-      this.setOverallProgress(0, false);
+      const samplingOptions = meshes.map((mesh) => this.assetService.getMeshSamplingOptions(mesh.name));
+      const atlas = await this.dataTextureManager.createSequenceDataTextureAtlas(
+        meshes,
+        this.layOutAtlas(meshes.length)!, // fits, as it has no more meshes than checked above
+        samplingOptions,
+        this.meshCorrespondence,
+      );
+      if (request !== this.meshSequenceRequest) return; // replaced by a newer sequence while building
+      this.applyMeshSequenceAtlas(atlas, meshes);
     } catch (error) {
+      if (request !== this.meshSequenceRequest) return; // superseded, the newer sequence owns the atlas
       console.error('Failed during mesh sequence setup:', error);
-      this.meshSequenceAtlasTexture = null;
+      this.meshSequenceAtlas = null;
       // Consider resetting related states or services
     }
   }
 
+  /**
+   * Uses a mesh sequence atlas baked ahead of time, e.g. with the ionian-bake command, instead of sampling the meshes.
+   * The atlas must have the texture size of the engine. Registered meshes with the baked IDs are only used for pointer intersection.
+   * Resizing the engine resamples the registered meshes, as the atlas cannot be resized.
+   * @param source The URL of the .ionian file, or its contents.
+   */
+  async loadBakedAtlas(source: string | ArrayBuffer) {
+    const request = ++this.meshSequenceRequest;
+    let baked: BakedAtlas;
+    try {
+      let buffer: ArrayBuffer;
+      if (typeof source === 'string') {
+        const response = await fetch(source);
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        buffer = await response.arrayBuffer();
+      } else {
+        buffer = source;
+      }
+      baked = decodeBakedAtlas(buffer);
+    } catch (error) {
+      this.eventEmitter.emit('invalidRequest', { message: `failed to load baked atlas. ${error}` });
+      return;
+    }
+    if (request !== this.meshSequenceRequest) return; // replaced by a newer sequence while loading
+    if (baked.textureSize !== this.engineState.textureSize) {
+      this.eventEmitter.emit('invalidRequest', {
+        message: `baked atlas has texture size ${baked.textureSize}, the engine uses ${this.engineState.textureSize}.`,
+      });
+      return;
+    }
+    const layout = this.layOutAtlas(baked.meshIDs.length);
+    if (!layout) return;
+
+    this.engineState.meshSequence = baked.meshIDs;
+    this.engineState.overallProgress = 0;
+    const meshes = baked.meshIDs.map((id) => this.assetService.getSequenceTarget(id));
+    const atlas = this.dataTextureManager.setBakedAtlas(baked, layout);
+    // Intersection blends the meshes by index, so it needs all of them
+    this.applyMeshSequenceAtlas(atlas, meshes.every((mesh) => mesh !== null) ? meshes : []);
+  }
+
+  /**
+   * Lays out the mesh sequence atlas within the maximum texture size of the renderer, see getAtlasLayout.
+   * @param meshCount The number of meshes in the sequence.
+   * @returns The layout, or null when the meshes do not fit.
+   */
+  private layOutAtlas(meshCount: number): AtlasLayout | null {
+    try {
+      return getAtlasLayout(this.engineState.textureSize, meshCount, this.renderer?.capabilities.maxTextureSize);
+    } catch (error) {
+      this.eventEmitter.emit('invalidRequest', { message: `${(error as Error).message} use fewer meshes or a smaller texture size.` });
+      return null;
+    }
+  }
+
+  /**
+   * Hands a freshly built or loaded atlas of the current mesh sequence to the simulation, instances and intersection.
+   */
+  private applyMeshSequenceAtlas(atlas: SequenceAtlas, meshes: (THREE.Mesh | THREE.Points)[]) {
+    this.meshSequenceAtlas = atlas;
+
+    // Update the simulation renderer
+    this.simulationRendererService.setPositionAtlas({
+      dataTexture: this.meshSequenceAtlas.positions,
+      textureSize: this.engineState.textureSize, // Pass the size of the *output* GPGPU texture
+      numMeshes: this.engineState.meshSequence.length, // Use the potentially updated count
+      singleTextureSize: this.engineState.textureSize, // Size of one mesh's data within atlas
+      atlasColumns: atlas.layout.columns,
+      normalTexture: this.meshSequenceAtlas.normals,
+      colorTexture: this.meshSequenceAtlas.colors,
+    });
+    this.instancedMeshManager.setSurfaceAtlas(atlas.normals, atlas.colors, this.engineState.meshSequence.length, atlas.layout.columns);
+    this.applyStagger(); // the default range depends on the meshes
+    if (this.pendingFirstMeshPlacement) {
+      this.placeParticlesAtFirstMesh();
+      this.pendingFirstMeshPlacement = false;
+    }
+    // Set initial progress in simulation (should be 0 after sequence change)
+    this.simulationRendererService.setOverallProgress(this.engineState.overallProgress);
+
+    // Update IntersectionService with the valid meshes
+    this.intersectionService.setMeshSequence(meshes);
+    this.intersectionService.setOverallProgress(this.engineState.overallProgress);
+
+    this.setOverallProgress(0, false);
+  }
+
   /**
    * Sets the overall progress through the mesh sequence.
    * @param progress A value between 0.0 (first mesh) and 1.0 (last mesh).
@@ -267,6 +663,7 @@ export class ParticlesEngine {
     this.engineState.overallProgress = clampedProgress;
     this.simulationRendererService.setOverallProgress(clampedProgress);
     this.intersectionService.setOverallProgress(clampedProgress);
+    this.instancedMeshManager.setSequenceProgress(clampedProgress);
     const { textureA, textureB, localProgress } = this.calculateTextureInterpolation(progress);
     this.instancedMeshManager.updateTextureInterpolation(textureA, textureB, localProgress);
   }
@@ -276,14 +673,14 @@ export class ParticlesEngine {
    * @param targetProgress The final progress value (0.0 to 1.0) to transition to.
    * @param duration Duration of the transition in milliseconds.
    * @param easing Easing function to use.
-   * @param options Transition options (onBegin, onProgress, onFinished, onCancelled).
+   * @param options Transition options (onBegin, onProgress, onFinished, onCancelled) and the morph path overrides of this transition.
    * @param override If true, cancels any ongoing mesh sequence transitions.
    */
   scheduleMeshSequenceTransition(
     targetProgress: number,
     duration: number = 1000,
     easing: EasingFunction = linear,
-    options: TransitionOptions = {},
+    options: MeshSequenceTransitionOptions = {},
     override: boolean = true // Default to override for simplicity
   ) {
     if (override) this.eventEmitter.emit('transitionCancelled', { type: 'mesh-sequence' });
@@ -296,16 +693,30 @@ export class ParticlesEngine {
       options.onTransitionProgress?.(currentOverallProgress);
     };
     const transitionDetail: TransitionDetail = { duration, easing };
+    const { path, ...callbacks } = options;
+    // The path override only lasts for this transition
+    const setTransitionMorphPath = (transitionPath: MorphPath | null) => {
+      if (!path) return;
+      this.transitionMorphPath = transitionPath;
+      this.applyMorphPath();
+    };
     const transitionOptions: TransitionOptions = {
-      ...options,
+      ...callbacks,
       onTransitionProgress: handleProgressUpdate,
-      onTransitionBegin: options.onTransitionBegin,
+      onTransitionBegin: () => {
+        setTransitionMorphPath({ ...this.engineState.morphPath, ...path });
+        options.onTransitionBegin?.();
+      },
       onTransitionFinished: () => {
         // Ensure final value is set precisely, again with override=false
         this.setOverallProgress(targetProgress, false);
+        setTransitionMorphPath(null);
         options.onTransitionFinished?.();
       },
-      onTransitionCancelled: options.onTransitionCancelled
+      onTransitionCancelled: () => {
+        setTransitionMorphPath(null);
+        options.onTransitionCancelled?.();
+      }
     };
     this.transitionService.enqueue('mesh-sequence', transitionDetail, transitionOptions);
   }
@@ -322,6 +733,10 @@ export class ParticlesEngine {
     return this.assetService.getMeshIDs();
   }
 
+  getPointCloudIDs() {
+    return this.assetService.getPointCloudIDs();
+  }
+
   getMatcapIDs() {
     return this.assetService.getTextureIDs();
   }
@@ -346,6 +761,93 @@ export class ParticlesEngine {
     return { ...this.engineState }; // Return a copy or make EngineState properties readonly
   }
 
+  /**
+   * Reads the current particle positions and velocities back into typed arrays, e.g. for analytics or exporting the cloud.
+   * The read does not stall rendering; it resolves a few frames later.
+   * @param options The region to read and the minimum time between readbacks.
+   * @returns The particle data, 4 floats per particle. Position w is the age, velocity w the lifetime.
+   */
+  readParticles(options?: ReadParticlesOptions): Promise<ParticleReadback> {
+    return this.simulationRendererService.readParticles(options);
+  }
+
+  /**
+   * Captures the particle positions, velocities and simulation time, e.g. to continue the motion after a page transition.
+   * @returns The simulation state. Its typed arrays can be stored or transferred as they are.
+   */
+  captureSimulationState(): Promise<SimulationState> {
+    return this.simulationRendererService.captureState();
+  }
+
+  /**
+   * Restores a state captured with {@link captureSimulationState}. A state of another texture size is resampled.
+   * @param state The state to restore.
+   */
+  restoreSimulationState(state: SimulationState) {
+    this.simulationRendererService.restoreState(state);
+  }
+
+  /**
+   * Exports the current engine configuration as a versioned, JSON-serializable preset.
+   * @returns The preset.
+   */
+  exportPreset(): EnginePreset {
+    return createPreset(this.engineState);
+  }
+
+  /**
+   * Applies a preset created by {@link exportPreset}. Older preset versions are migrated first.
+   * Meshes and matcaps that are not registered, and invalid values such as malformed force fields, are skipped and reported through `invalidRequest`.
+   * @param preset The preset object or its JSON representation.
+   */
+  async applyPreset(preset: EnginePreset | string) {
+    const { preset: migrated, invalid } = migratePreset(preset, this.engineState);
+    if (invalid.length > 0) {
+      this.eventEmitter.emit('invalidRequest', { message: `Preset has invalid values, which were skipped: ${invalid.join(', ')}` });
+    }
+
+    const meshIDs = [...this.getMeshIDs(), ...this.getPointCloudIDs()];
+    const meshSequence = migrated.meshSequence.filter((id) => meshIDs.includes(id));
+    if (meshSequence.length !== migrated.meshSequence.length) {
+      const missing = migrated.meshSequence.filter((id) => !meshIDs.includes(id));
+      this.eventEmitter.emit('invalidRequest', { message: `Preset references unregistered meshes: ${missing.join(', ')}` });
+    }
+
+    const { valid: textureSequence, missing: missingMatcaps } = partitionTextureSequence(migrated.textureSequence, this.getMatcapIDs());
+    if (missingMatcaps.length > 0) {
+      this.eventEmitter.emit('invalidRequest', { message: `Preset references unregistered matcaps: ${missingMatcaps.join(', ')}` });
+    }
+
+    this.eventEmitter.emit('transitionCancelled', { type: 'mesh-sequence' });
+    this.setVelocityTractionForce(migrated.velocityTractionForce);
+    this.setPositionalTractionForce(migrated.positionalTractionForce);
+    this.setMaxRepelDistance(migrated.maxRepelDistance);
+    this.setInteractionMode(migrated.interactionMode);
+    this.setInteractionStrength(migrated.interactionStrength);
+    this.setInteractionFalloff(migrated.interactionFalloff);
+    this.setForceFields(migrated.forceFields);
+    this.setColliders(migrated.colliders);
+    await this.setLifecycle(migrated.lifecycle);
+    this.setStagger(migrated.stagger);
+    this.setMorphPath(migrated.morphPath);
+    this.setParticleAppearance(migrated.appearance);
+    this.setTimeScale(migrated.timeScale);
+    this.setGeometrySize(migrated.instanceGeometryScale);
+    this.useIntersect(migrated.useIntersect);
+    this.setTextureSequence(textureSequence);
+
+    if (migrated.textureSize !== this.engineState.textureSize) {
+      // the new sequence is applied below, so there is no need to resample the current one while resizing.
+      this.engineState.meshSequence = [];
+      await this.setTextureSize(migrated.textureSize);
+    }
+
+    if (meshSequence.length > 0) {
+      await this.setMeshSequence(meshSequence);
+    }
+    this.setOverallProgress(migrated.overallProgress, false);
+  }
+
   /**
    * Disposes the resources used by the engine.
    */
@@ -360,21 +862,35 @@ export class ParticlesEngine {
     this.intersectionService?.dispose();
     this.assetService?.dispose();
     this.dataTextureManager?.dispose();
+    this.signedDistanceFields.forEach((sdf) => sdf.texture.dispose());
+    this.signedDistanceFields.clear();
     this.eventEmitter?.dispose(); // Dispose event emitter too
   }
 
   private initialEngineState(params: ParticlesEngineParameters): EngineState {
     return {
       textureSize: params.textureSize,
+      seed: params.seed,
       meshSequence: [], // ADDED
       overallProgress: 0, // ADDED
       textureSequence: [],
       velocityTractionForce: 0.1,
       positionalTractionForce: 0.1,
       maxRepelDistance: 0.3,
+      interactionMode: 'repel',
+      interactionStrength: 1,
+      interactionFalloff: 'smooth',
+      forceFields: [],
+      colliders: [],
+      lifecycle: { enabled: false, lifetime: [2, 4], birthRate: 0, emitter: { type: 'target' }, fade: false, shrink: true },
+      stagger: { mode: 'none' },
+      morphPath: { mode: 'linear' },
+      appearance: { meshColors: false, orientation: 'velocity' },
       pointerPosition: { x: 0, y: 0 },
       instanceGeometryScale: { x: 1, y: 1, z: 1 },
-      useIntersect: params.useIntersection ?? true
+      useIntersect: params.useIntersection ?? true,
+      timeScale: 1,
+      paused: false
     };
   }
 
@@ -388,8 +904,78 @@ export class ParticlesEngine {
     };
   }
 
-  private handleInteractionPositionUpdated({ position }: { position: THREE.Vector4Like }) {
-    this.simulationRendererService.setInteractionPosition(position);
+  private applyColliders() {
+    let sdf: SignedDistanceField | undefined;
+    // Colliders that cannot be resolved are disabled rather than removed, so the shader is not recompiled
+    const colliders = this.engineState.colliders.map((collider) => {
+      if (collider.type !== 'sdf' || collider.enabled === false) return collider;
+      if (sdf) {
+        this.eventEmitter.emit('invalidRequest', { message: `only one sdf collider can be active. collider "${collider.id}" is disabled.` });
+        return { ...collider, enabled: false };
+      }
+      const mesh = collider.meshId ? this.assetService.getMesh(collider.meshId) : null;
+      if (!mesh) {
+        this.eventEmitter.emit('invalidRequest', { message: `collider mesh with id "${collider.meshId}" not found. collider "${collider.id}" is disabled.` });
+        return { ...collider, enabled: false };
+      }
+      sdf = this.getSignedDistanceField(mesh, collider.sdfResolution ?? 32);
+      return collider;
+    });
+    this.simulationRendererService.setColliders(colliders, sdf);
+  }
+
+  private getSignedDistanceField(mesh: THREE.Mesh, resolution: number) {
+    const key = `${mesh.uuid}:${resolution}`;
+    let sdf = this.signedDistanceFields.get(key);
+    if (!sdf) {
+      const seed = this.engineState.seed;
+      sdf = bakeSignedDistanceField(mesh, resolution, seed === undefined ? Math.random : createRandom(seed ^ hashString(`sdf-${mesh.name}`)));
+      this.signedDistanceFields.set(key, sdf);
+    }
+    return sdf;
+  }
+
+  private async applyLifecycle() {
+    const lifecycle = this.engineState.lifecycle;
+    let emitterTexture: THREE.DataTexture | null = null;
+    if (lifecycle.emitter.type === 'mesh') {
+      const mesh = this.assetService.getMesh(lifecycle.emitter.meshId);
+      if (mesh) {
+        emitterTexture = await this.dataTextureManager.getDataTexture(mesh, this.assetService.getMeshSamplingOptions(mesh.name));
+      } else {
+        this.eventEmitter.emit('invalidRequest', { message: `emitter mesh with id "${lifecycle.emitter.meshId}" not found. using the target instead.` });
+      }
+    }
+    this.simulationRendererService.setLifecycle(lifecycle, emitterTexture);
+    this.instancedMeshManager.setLifecycle(lifecycle);
+  }
+
+  private placeParticlesAtFirstMesh() {
+    const { positions: atlasTexture, layout } = this.meshSequenceAtlas!;
+    const positions = readAtlasCell(atlasTexture.image.data as Float32Array, layout, 0);
+    for (let offset = 3; offset < positions.length; offset += 4) positions[offset] = 0; // w is the particle age
+    this.simulationRendererService.setPositions(positions);
+  }
+
+  private applyMorphPath() {
+    this.simulationRendererService.setMorphPath(this.transitionMorphPath ?? this.engineState.morphPath);
+  }
+
+  private applyStagger() {
+    const stagger = this.engineState.stagger;
+    if (stagger.mode === 'texture' && !stagger.texture) {
+      this.eventEmitter.emit('invalidRequest', { message: 'stagger texture is missing. particles move at once.' });
+      this.simulationRendererService.setStagger({ mode: 'none' });
+      return;
+    }
+    const atlas = this.meshSequenceAtlas;
+    const range = stagger.range ?? (atlas ? measureStaggerRange(stagger, getAtlasTexels(atlas.positions.image.data as Float32Array, atlas.layout)) : undefined);
+    this.simulationRendererService.setStagger({ ...stagger, range });
+  }
+
+  private handleInteractionPositionsUpdated({ positions, velocities, viewDirection }: Events['interactionPositionsUpdated']) {
+    this.simulationRendererService.setInteractionPositions(positions, velocities);
+    this.simulationRendererService.setInteractionViewDirection(viewDirection);
   }
 
   private calculateTextureInterpolation(progress: number): {
@@ -0,0 +1,329 @@
+import {
+  Collider,
+  EnginePreset,
+  ForceField,
+  ForceFieldFalloff,
+  InteractionMode,
+  LifecycleOptions,
+  MorphPath,
+  ParticleAppearance,
+  ParticleEmitter,
+  StaggerOptions,
+  TextureSequence,
+  TextureSequenceItem,
+} from '@/lib/types';
+import { EngineState } from '@/lib/types/state';
+import * as THREE from 'three';
+
+/**
+ * The preset version written by {@link createPreset}.
+ */
+export const PRESET_VERSION = 9;
+
+// Largest texture size a preset may set: 4096² is about 16.7 million particles, past what GPUs simulate interactively.
+const MAX_TEXTURE_SIZE = 4096;
+
+type PresetMigration = (preset: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ * Each migration must return a preset of the next version.
+ */
+const migrations: Record<number, PresetMigration> = {
+  // version 0: a raw EngineState snapshot (e.g. JSON.stringify(engine.getEngineStateSnapshot())).
+  0: (legacy) => {
+    const preset: Record<string, unknown> = { ...legacy, version: 1 };
+    delete preset.pointerPosition;
+    return preset;
+  },
+  // version 2 adds force fields.
+  1: (preset) => ({ ...preset, forceFields: [], version: 2 }),
+  // version 3 adds the particle lifecycle. Missing values fall back to the current engine state.
+  2: (preset) => ({ ...preset, version: 3 }),
+  // version 4 adds interaction modes. Older presets could only repel.
+  3: (preset) => ({ ...preset, interactionMode: 'repel', interactionStrength: 1, interactionFalloff: 'smooth', version: 4 }),
+  // version 5 adds colliders.
+  4: (preset) => ({ ...preset, colliders: [], version: 5 }),
+  // version 6 adds staggered arrivals. Older presets moved every particle at once.
+  5: (preset) => ({ ...preset, stagger: { mode: 'none' }, version: 6 }),
+  // version 7 adds morph paths. Older presets morphed in straight lines.
+  6: (preset) => ({ ...preset, morphPath: { mode: 'linear' }, version: 7 }),
+  // version 8 adds the particle appearance. Older presets used matcaps only and pointed particles along their velocity.
+  7: (preset) => ({ ...preset, appearance: { meshColors: false, orientation: 'velocity' }, version: 8 }),
+  // version 9 adds the time scale. Missing values fall back to the current engine state.
+  8: (preset) => ({ ...preset, version: 9 }),
+};
+
+/**
+ * Creates a serializable preset from the given engine state.
+ * The seed is left out: it seeds the random sources when the engine is created and cannot change afterwards,
+ * so reproducing a preset exactly takes an engine created with the same seed.
+ * @param state The engine state to serialize.
+ * @returns The preset.
+ */
+export function createPreset(state: EngineState): EnginePreset {
+  return {
+    version: PRESET_VERSION,
+    textureSize: state.textureSize,
+    meshSequence: [...state.meshSequence],
+    textureSequence: state.textureSequence.map((item) => ({ ...item })),
+    overallProgress: state.overallProgress,
+    velocityTractionForce: state.velocityTractionForce,
+    positionalTractionForce: state.positionalTractionForce,
+    maxRepelDistance: state.maxRepelDistance,
+    interactionMode: state.interactionMode,
+    interactionStrength: state.interactionStrength,
+    interactionFalloff: state.interactionFalloff,
+    instanceGeometryScale: { x: state.instanceGeometryScale.x, y: state.instanceGeometryScale.y, z: state.instanceGeometryScale.z },
+    useIntersect: state.useIntersect,
+    forceFields: state.forceFields.map((field) => ({ ...field })),
+    colliders: state.colliders.map((collider) => ({ ...collider })),
+    lifecycle: { ...state.lifecycle, lifetime: [...state.lifecycle.lifetime], emitter: { ...state.lifecycle.emitter } },
+    stagger: { ...state.stagger, texture: undefined }, // textures are not serializable
+    morphPath: { ...state.morphPath },
+    appearance: { ...state.appearance },
+    timeScale: state.timeScale,
+  };
+}
+
+/**
+ * Upgrades a preset of any known version to the current version and validates its shape.
+ * Missing values are filled from the given fallback state. Invalid list entries are dropped and other invalid values replaced by the fallback.
+ * @param input The preset object or its JSON representation.
+ * @param fallback The state used for values missing from the preset.
+ * @returns The migrated preset and descriptions of the invalid values.
+ */
+export function migratePreset(input: unknown, fallback: EngineState): { preset: EnginePreset; invalid: string[] } {
+  const parsed = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!isRecord(parsed)) {
+    throw new Error('Invalid preset: expected an object.');
+  }
+
+  let preset: Record<string, unknown> = parsed;
+  let version = typeof preset.version === 'number' ? preset.version : 0;
+  if (version > PRESET_VERSION) {
+    throw new Error(`Unsupported preset version ${version}. Latest supported version is ${PRESET_VERSION}.`);
+  }
+
+  while (version < PRESET_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration available for preset version ${version}.`);
+    preset = migrate(preset);
+    version = preset.version as number;
+  }
+
+  const defaults = createPreset(fallback);
+  const invalid: string[] = [];
+  const read = <T>(name: keyof EnginePreset, isValid: (value: unknown) => value is T, fallbackValue: T) =>
+    readOption(invalid, name, preset[name], isValid, fallbackValue);
+  const readItems = <T>(name: keyof EnginePreset, isValid: (item: unknown) => item is T, fallbackList: T[]) =>
+    readList(invalid, name, preset[name], isValid, fallbackList);
+
+  const migrated: EnginePreset = {
+    version: PRESET_VERSION,
+    textureSize: read('textureSize', isTextureSize, defaults.textureSize),
+    meshSequence: readItems('meshSequence', isString, defaults.meshSequence),
+    textureSequence: readItems('textureSequence', isTextureSequenceItem, defaults.textureSequence),
+    overallProgress: read('overallProgress', isFiniteNumber, defaults.overallProgress),
+    velocityTractionForce: read('velocityTractionForce', isFiniteNumber, defaults.velocityTractionForce),
+    positionalTractionForce: read('positionalTractionForce', isFiniteNumber, defaults.positionalTractionForce),
+    maxRepelDistance: read('maxRepelDistance', isFiniteNumber, defaults.maxRepelDistance),
+    interactionMode: read('interactionMode', isInteractionMode, defaults.interactionMode),
+    interactionStrength: read('interactionStrength', isFiniteNumber, defaults.interactionStrength),
+    interactionFalloff: read('interactionFalloff', isForceFieldFalloff, defaults.interactionFalloff),
+    instanceGeometryScale: read('instanceGeometryScale', isVector3, defaults.instanceGeometryScale),
+    useIntersect: read('useIntersect', isBoolean, defaults.useIntersect),
+    forceFields: readItems('forceFields', isForceField, defaults.forceFields),
+    colliders: readItems('colliders', isCollider, defaults.colliders),
+    lifecycle: readLifecycle(invalid, preset.lifecycle, defaults.lifecycle),
+    stagger: read('stagger', isStaggerOptions, defaults.stagger),
+    morphPath: read('morphPath', isMorphPath, defaults.morphPath),
+    appearance: read('appearance', isParticleAppearance, defaults.appearance),
+    timeScale: read('timeScale', isTimeScale, defaults.timeScale),
+  };
+  return { preset: migrated, invalid };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isTextureSize(value: unknown): value is number {
+  return isFiniteNumber(value) && Number.isInteger(value) && value >= 1 && value <= MAX_TEXTURE_SIZE;
+}
+
+function isTimeScale(value: unknown): value is number {
+  return isFiniteNumber(value) && value >= 0;
+}
+
+function isVector3(value: unknown): value is THREE.Vector3Like {
+  return isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) && isFiniteNumber(value.z);
+}
+
+/**
+ * Checks an optional field: absent, or valid.
+ */
+function isOptional(value: unknown, isValid: (value: unknown) => boolean) {
+  return value === undefined || isValid(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isNumberPair(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber);
+}
+
+function isTextureSequenceItem(item: unknown): item is TextureSequenceItem {
+  if (!isRecord(item)) return false;
+  if (item.type === 'matcap') return typeof item.id === 'string';
+  if (item.type === 'color') return typeof item.value === 'string' || typeof item.value === 'number';
+  return false;
+}
+
+function isForceField(field: unknown): field is ForceField {
+  const types: unknown[] = ['attractor', 'vortex', 'wind', 'gravity', 'turbulence'];
+  return (
+    isRecord(field) &&
+    typeof field.id === 'string' &&
+    types.includes(field.type) &&
+    isFiniteNumber(field.strength) &&
+    isOptional(field.enabled, isBoolean) &&
+    isOptional(field.position, isVector3) &&
+    isOptional(field.direction, isVector3) &&
+    isOptional(field.radius, isFiniteNumber) &&
+    isOptional(field.falloff, isForceFieldFalloff) &&
+    isOptional(field.frequency, isFiniteNumber) &&
+    isOptional(field.speed, isFiniteNumber)
+  );
+}
+
+function isCollider(collider: unknown): collider is Collider {
+  const types: unknown[] = ['plane', 'box', 'sphere', 'sdf'];
+  return (
+    isRecord(collider) &&
+    typeof collider.id === 'string' &&
+    types.includes(collider.type) &&
+    isOptional(collider.enabled, isBoolean) &&
+    isOptional(collider.position, isVector3) &&
+    isOptional(collider.normal, isVector3) &&
+    isOptional(collider.size, isVector3) &&
+    isOptional(collider.radius, isFiniteNumber) &&
+    isOptional(collider.meshId, isString) &&
+    isOptional(collider.sdfResolution, isFiniteNumber) &&
+    isOptional(collider.invert, isBoolean) &&
+    isOptional(collider.bounce, isFiniteNumber) &&
+    isOptional(collider.friction, isFiniteNumber)
+  );
+}
+
+function isInteractionMode(mode: unknown): mode is InteractionMode {
+  const modes: unknown[] = ['repel', 'attract', 'swirl', 'push'];
+  return modes.includes(mode);
+}
+
+function isForceFieldFalloff(falloff: unknown): falloff is ForceFieldFalloff {
+  const falloffs: unknown[] = ['none', 'linear', 'smooth', 'inverse-square'];
+  return falloffs.includes(falloff);
+}
+
+function isStaggerOptions(options: unknown): options is StaggerOptions {
+  const modes: unknown[] = ['none', 'random', 'distance', 'axis', 'texture'];
+  return (
+    isRecord(options) &&
+    modes.includes(options.mode) &&
+    isOptional(options.delay, isFiniteNumber) &&
+    isOptional(options.speed, isFiniteNumber) &&
+    isOptional(options.invert, isBoolean) &&
+    isOptional(options.origin, isVector3) &&
+    isOptional(options.axis, isVector3) &&
+    isOptional(options.range, isNumberPair)
+  );
+}
+
+function isMorphPath(path: unknown): path is MorphPath {
+  const modes: unknown[] = ['linear', 'arc', 'spiral', 'scatter', 'noise'];
+  return (
+    isRecord(path) &&
+    modes.includes(path.mode) &&
+    isOptional(path.amplitude, isFiniteNumber) &&
+    isOptional(path.axis, isVector3) &&
+    isOptional(path.frequency, isFiniteNumber)
+  );
+}
+
+function isParticleAppearance(appearance: unknown): appearance is ParticleAppearance {
+  const orientations: unknown[] = ['velocity', 'surface'];
+  return isRecord(appearance) && typeof appearance.meshColors === 'boolean' && orientations.includes(appearance.orientation);
+}
+
+function isParticleEmitter(emitter: unknown): emitter is ParticleEmitter {
+  if (!isRecord(emitter)) return false;
+  if (emitter.type === 'point') return isVector3(emitter.position) && isOptional(emitter.radius, isFiniteNumber);
+  if (emitter.type === 'mesh') return typeof emitter.meshId === 'string';
+  return emitter.type === 'target';
+}
+
+function readLifecycle(invalid: string[], value: unknown, fallback: LifecycleOptions): LifecycleOptions {
+  if (!isRecord(value)) {
+    if (value !== undefined) invalid.push('lifecycle');
+    return fallback;
+  }
+  return {
+    enabled: readOption(invalid, 'lifecycle.enabled', value.enabled, isBoolean, fallback.enabled),
+    lifetime: readOption(invalid, 'lifecycle.lifetime', value.lifetime, isNumberPair, fallback.lifetime),
+    birthRate: readOption(invalid, 'lifecycle.birthRate', value.birthRate, isFiniteNumber, fallback.birthRate),
+    emitter: readOption(invalid, 'lifecycle.emitter', value.emitter, isParticleEmitter, fallback.emitter),
+    fade: readOption(invalid, 'lifecycle.fade', value.fade, isBoolean, fallback.fade),
+    shrink: readOption(invalid, 'lifecycle.shrink', value.shrink, isBoolean, fallback.shrink),
+  };
+}
+
+/**
+ * Reads a preset value. Present but invalid values are added to `invalid` and replaced by the fallback, like missing ones.
+ */
+function readOption<T>(invalid: string[], name: string, value: unknown, isValid: (value: unknown) => value is T, fallback: T): T {
+  if (isValid(value)) return value;
+  if (value !== undefined) invalid.push(name);
+  return fallback;
+}
+
+/**
+ * Reads a list of a preset. Invalid items are added to `invalid` and dropped; a value that is not a list is replaced by the fallback.
+ */
+function readList<T>(invalid: string[], name: string, value: unknown, isValid: (item: unknown) => item is T, fallback: T[]): T[] {
+  if (!Array.isArray(value)) {
+    if (value !== undefined) invalid.push(name);
+    return fallback;
+  }
+  value.forEach((item, i) => isValid(item) || invalid.push(`${name}[${i}]`));
+  return value.filter(isValid);
+}
+
+/**
+ * Splits a texture sequence into items whose matcaps are available and the IDs of those that are not.
+ * @param sequence The texture sequence to check.
+ * @param matcapIDs The registered matcap IDs.
+ */
+export function partitionTextureSequence(sequence: TextureSequence, matcapIDs: string[]) {
+  const available = new Set(matcapIDs);
+  const valid: TextureSequence = [];
+  const missing: string[] = [];
+  for (const item of sequence) {
+    if (item.type === 'matcap' && !available.has(item.id)) {
+      missing.push(item.id);
+    } else {
+      valid.push(item);
+    }
+  }
+  return { valid, missing };
+}
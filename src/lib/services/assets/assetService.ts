@@ -1,19 +1,24 @@
 import { DefaultEventEmitter } from '@/lib/events';
-import { ServiceState } from '@/lib/types';
+import { ImageTargetOptions, ImageTargetSource, MeshSamplingOptions, PointCloudData, ServiceState, SvgTargetOptions } from '@/lib/types';
 import { disposeMesh } from '@/lib/utils';
 import * as THREE from 'three';
-import { DRACOLoader, GLTFLoader } from 'three-stdlib';
+import { DRACOLoader, GLTFLoader, PCDLoader, PLYLoader } from 'three-stdlib';
+import { createImageTargetMesh, createPointCloud, createSvgTargetMesh } from './targetMeshes';
 
 export class AssetService {
   private serviceState: ServiceState = 'created';
 
   private readonly eventEmitter;
   private readonly meshes = new Map<string, THREE.Mesh>();
+  private readonly pointClouds = new Map<string, THREE.Points>();
+  private readonly meshSamplingOptions = new Map<string, MeshSamplingOptions>();
   private readonly textures = new Map<string, THREE.Texture>();
 
   private readonly gltfLoader = new GLTFLoader();
   private readonly textureLoader = new THREE.TextureLoader();
   private readonly dracoLoader = new DRACOLoader();
+  private readonly plyLoader = new PLYLoader();
+  private readonly pcdLoader = new PCDLoader();
 
   private readonly solidColorTextures = new Map<string, THREE.Texture>();
   private fallbackTexture = new THREE.DataTexture(new Uint8Array([127, 127, 127, 255]), 1, 1, THREE.RGBAFormat);
@@ -29,15 +34,19 @@ export class AssetService {
   /**
    * Registers an asset.
    * @param id - The ID of the asset.
-   * @param item - The asset to set.
+   * @param item - The asset to set. Meshes and point clouds share their IDs, so a point cloud replaces a mesh of the same ID and vice versa.
    */
-  register(id: string, item: THREE.Mesh | THREE.Texture) {
+  register(id: string, item: THREE.Mesh | THREE.Points | THREE.Texture) {
     item.name = id;
 
-    if (item instanceof THREE.Mesh) {
-      const prev = this.meshes.get(id);
+    if (item instanceof THREE.Mesh || item instanceof THREE.Points) {
+      const prev = this.meshes.get(id) ?? this.pointClouds.get(id);
       if (prev) disposeMesh(prev);
-      this.meshes.set(id, item);
+      this.meshes.delete(id);
+      this.pointClouds.delete(id);
+      if (item instanceof THREE.Mesh) this.meshes.set(id, item);
+      else this.pointClouds.set(id, item);
+      this.meshSamplingOptions.delete(id);
     } else {
       const prev = this.textures.get(id);
       if (prev) prev.dispose();
@@ -47,10 +56,95 @@ export class AssetService {
     this.eventEmitter.emit('assetRegistered', { id });
   }
 
+  /**
+   * Registers an image as a flat mesh whose particle density follows the image.
+   * @param id - The ID of the target.
+   * @param image - The image.
+   * @param options - The target options.
+   * @returns The registered mesh.
+   */
+  registerImageTarget(id: string, image: ImageTargetSource, options?: ImageTargetOptions): THREE.Mesh {
+    const texture = image instanceof THREE.Texture ? image : new THREE.Texture(image);
+    texture.needsUpdate = true;
+    const { mesh, samplingOptions } = createImageTargetMesh(texture, options);
+    this.register(id, mesh);
+    this.setMeshSamplingOptions(id, samplingOptions);
+    return mesh;
+  }
+
+  /**
+   * Registers the filled shapes of an SVG drawing as a mesh.
+   * @param id - The ID of the target.
+   * @param svgText - The SVG markup.
+   * @param options - The target options.
+   * @returns The registered mesh, or null when the markup has no filled shapes.
+   */
+  registerSvgTarget(id: string, svgText: string, options?: SvgTargetOptions): THREE.Mesh | null {
+    let mesh: THREE.Mesh | null;
+    try {
+      mesh = createSvgTargetMesh(svgText, options);
+    } catch (error) {
+      this.eventEmitter.emit('invalidRequest', { message: `failed to parse svg: ${id}. ${error}` });
+      return null;
+    }
+    if (!mesh) {
+      this.eventEmitter.emit('invalidRequest', { message: `svg "${id}" has no filled shapes.` });
+      return null;
+    }
+    this.register(id, mesh);
+    return mesh;
+  }
+
+  /**
+   * Registers a point cloud.
+   * @param id - The ID of the point cloud.
+   * @param cloud - The point cloud, or its positions and optional colors.
+   * @returns The registered point cloud, or null when it has no points.
+   */
+  registerPointCloud(id: string, cloud: THREE.Points | PointCloudData): THREE.Points | null {
+    if (!(cloud instanceof THREE.Points) && cloud.colors && cloud.colors.length !== cloud.positions.length) {
+      this.eventEmitter.emit('invalidRequest', {
+        message: `point cloud "${id}" has ${cloud.colors.length} color values for ${cloud.positions.length} positions. ignoring colors.`,
+      });
+    }
+    const points = cloud instanceof THREE.Points ? cloud : createPointCloud(cloud);
+    if (!points.geometry.attributes.position?.count) {
+      this.eventEmitter.emit('invalidRequest', { message: `point cloud "${id}" has no points.` });
+      return null;
+    }
+    this.register(id, points);
+    return points;
+  }
+
   getMesh(id: string): THREE.Mesh | null {
     return this.meshes.get(id) ?? null;
   }
 
+  getPointCloud(id: string): THREE.Points | null {
+    return this.pointClouds.get(id) ?? null;
+  }
+
+  /**
+   * Gets a mesh or point cloud that can take part in the mesh sequence.
+   * @param id - The ID of the mesh or point cloud.
+   */
+  getSequenceTarget(id: string): THREE.Mesh | THREE.Points | null {
+    return this.meshes.get(id) ?? this.pointClouds.get(id) ?? null;
+  }
+
+  /**
+   * Sets how the surface of a registered mesh is sampled. Registering the mesh again resets the options.
+   * @param id - The ID of the mesh.
+   * @param options - The sampling options.
+   */
+  setMeshSamplingOptions(id: string, options: MeshSamplingOptions) {
+    this.meshSamplingOptions.set(id, options);
+  }
+
+  getMeshSamplingOptions(id: string): MeshSamplingOptions {
+    return this.meshSamplingOptions.get(id) ?? {};
+  }
+
   getMatcapTexture(id: string): THREE.Texture {
     const texture = this.textures.get(id);
     if (!texture) this.eventEmitter.emit('invalidRequest', { message: `texture with id "${id}" not found. using solid color texture instead...` });
@@ -84,6 +178,10 @@ export class AssetService {
     return Array.from(this.meshes.keys());
   }
 
+  getPointCloudIDs(): string[] {
+    return Array.from(this.pointClouds.keys());
+  }
+
   getTextureIDs(): string[] {
     return Array.from(this.textures.keys());
   }
@@ -149,6 +247,38 @@ export class AssetService {
     }
   }
 
+  /**
+   * Loads a PLY or PCD point cloud asynchronously. The vertices of PLY files are used as points even when they have faces.
+   * @param id - The ID of the point cloud.
+   * @param url - The URL of the point cloud, ending in .ply or .pcd.
+   * @returns The loaded point cloud or null.
+   */
+  async loadPointCloudAsync(id: string, url: string): Promise<THREE.Points | null> {
+    const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+    if (extension !== 'ply' && extension !== 'pcd') {
+      this.eventEmitter.emit('invalidRequest', { message: `failed to load point cloud: ${id}. expected a .ply or .pcd file.` });
+      return null;
+    }
+    try {
+      let geometry: THREE.BufferGeometry;
+      if (extension === 'ply') {
+        geometry = await this.plyLoader.loadAsync(url);
+      } else {
+        const points = await this.pcdLoader.loadAsync(url);
+        (points.material as THREE.Material).dispose(); // tinted randomly when the file has no colors
+        geometry = points.geometry;
+      }
+      // Both loaders read sRGB colors as is
+      const color = geometry.getAttribute('color') as THREE.BufferAttribute | undefined;
+      if (color) convertColorsToLinear(color);
+      const points = new THREE.Points(geometry, new THREE.PointsMaterial({ vertexColors: !!color, size: 0.01 }));
+      return this.registerPointCloud(id, points);
+    } catch (error) {
+      this.eventEmitter.emit('invalidRequest', { message: `failed to load point cloud: ${id}. ${error}` });
+      return null;
+    }
+  }
+
   /**
    * Loads a texture asynchronously.
    * @param id - The ID of the texture.
@@ -170,6 +300,8 @@ export class AssetService {
     this.updateServiceState('disposed');
     this.meshes.forEach((mesh) => disposeMesh(mesh));
     this.meshes.clear();
+    this.pointClouds.forEach((points) => disposeMesh(points));
+    this.pointClouds.clear();
     this.textures.forEach((texture) => texture.dispose());
     this.textures.clear();
     this.solidColorTextures.forEach((texture) => texture.dispose());
@@ -182,3 +314,11 @@ export class AssetService {
     this.eventEmitter.emit('serviceStateUpdated', { type: 'asset', state: serviceState });
   }
 }
+
+function convertColorsToLinear(attribute: THREE.BufferAttribute) {
+  const color = new THREE.Color();
+  for (let i = 0; i < attribute.count; i++) {
+    color.fromBufferAttribute(attribute, i).convertSRGBToLinear();
+    attribute.setXYZ(i, color.r, color.g, color.b);
+  }
+}
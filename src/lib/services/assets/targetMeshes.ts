@@ -0,0 +1,96 @@
+import { ImageTargetOptions, MeshSamplingOptions, PointCloudData, SvgTargetOptions } from '@/lib/types';
+import * as THREE from 'three';
+import { mergeBufferGeometries, SVGLoader } from 'three-stdlib';
+
+/**
+ * Creates a flat mesh showing an image, so the image can be sampled like any other particle target.
+ * @param texture The image. Its pixels must be readable on the CPU.
+ * @param options The target options.
+ * @returns The mesh, centered on the origin and facing +z, and the sampling options that make the density follow the image.
+ */
+export function createImageTargetMesh(texture: THREE.Texture, options: ImageTargetOptions = {}): { mesh: THREE.Mesh; samplingOptions: MeshSamplingOptions } {
+  const image = texture.image as { width: number; height: number } | undefined;
+  const width = options.width ?? 2;
+  const height = image && image.width > 0 ? (width * image.height) / image.width : width;
+  const mesh = new THREE.Mesh(new THREE.PlaneGeometry(width, height), new THREE.MeshBasicMaterial({ map: texture, transparent: true }));
+  const samplingOptions: MeshSamplingOptions = {
+    weight: { type: 'texture', texture, channel: options.weight ?? 'alpha' },
+    thickness: options.depth ?? 0,
+  };
+  return { mesh, samplingOptions };
+}
+
+/**
+ * Creates a mesh from the filled shapes of an SVG drawing. Strokes are ignored.
+ * The fill colors become vertex colors, so they are baked into the particle colors.
+ * @param svgText The SVG markup.
+ * @param options The target options.
+ * @returns The mesh, centered on the origin and facing +z, or null when the drawing has no filled shapes.
+ */
+export function createSvgTargetMesh(svgText: string, options: SvgTargetOptions = {}): THREE.Mesh | null {
+  const { paths } = new SVGLoader().parse(svgText);
+  const depth = options.depth ?? 0;
+  const curveSegments = options.curveSegments ?? 12;
+
+  const geometries: THREE.BufferGeometry[] = [];
+  for (const path of paths) {
+    if (path.userData?.style?.fill === 'none') continue;
+    for (const shape of SVGLoader.createShapes(path)) {
+      const shapeGeometry =
+        depth > 0 ? new THREE.ExtrudeGeometry(shape, { depth, bevelEnabled: false, curveSegments }) : new THREE.ShapeGeometry(shape, curveSegments);
+      const geometry = shapeGeometry.index ? shapeGeometry.toNonIndexed() : shapeGeometry; // merging needs matching index layouts
+      if (geometry !== shapeGeometry) shapeGeometry.dispose();
+
+      const colors = new Float32Array(geometry.attributes.position.count * 3);
+      for (let vertex = 0; vertex < geometry.attributes.position.count; vertex++) path.color.toArray(colors, vertex * 3);
+      geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+      geometries.push(geometry);
+    }
+  }
+  if (geometries.length === 0) return null;
+
+  const geometry = mergeBufferGeometries(geometries);
+  geometries.forEach((part) => part.dispose());
+  if (!geometry) return null;
+
+  flipVertically(geometry); // SVG y points down
+  geometry.center();
+  geometry.computeBoundingBox();
+  const drawingWidth = geometry.boundingBox!.max.x - geometry.boundingBox!.min.x;
+  const scale = drawingWidth > 0 ? (options.width ?? 2) / drawingWidth : 1;
+  geometry.scale(scale, scale, 1); // the depth is already in world units
+
+  return new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ vertexColors: true, side: THREE.DoubleSide }));
+}
+
+/**
+ * Creates a point cloud from raw arrays.
+ * @param data The point positions and optional colors. Colors that do not match the positions are left out.
+ * @returns The point cloud, showing the colors when there are any.
+ */
+export function createPointCloud(data: PointCloudData): THREE.Points {
+  const geometry = new THREE.BufferGeometry();
+  const positions = Float32Array.from(data.positions).subarray(0, Math.floor(data.positions.length / 3) * 3);
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  const hasColors = data.colors !== undefined && data.colors.length === positions.length;
+  if (hasColors) geometry.setAttribute('color', new THREE.BufferAttribute(Float32Array.from(data.colors!), 3));
+  return new THREE.Points(geometry, new THREE.PointsMaterial({ vertexColors: hasColors, size: 0.01 }));
+}
+
+/**
+ * Mirrors a non-indexed geometry along y, keeping its faces pointing outward.
+ */
+function flipVertically(geometry: THREE.BufferGeometry) {
+  geometry.scale(1, -1, 1);
+  // The reflection turns the faces inside out; swapping two corners of every triangle restores the winding
+  for (const attribute of Object.values(geometry.attributes) as THREE.BufferAttribute[]) {
+    const { array, itemSize } = attribute;
+    for (let vertex = 0; vertex + 2 < attribute.count; vertex += 3) {
+      for (let component = 0; component < itemSize; component++) {
+        const a = (vertex + 1) * itemSize + component;
+        const b = (vertex + 2) * itemSize + component;
+        [array[a], array[b]] = [array[b], array[a]];
+      }
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { DefaultEventEmitter } from '@/lib/events';
+
+export type ClockOptions = {
+  /** Duration of a single simulation step, in seconds. */
+  fixedTimeStep?: number;
+  /** Maximum number of simulation steps per frame. Excess time is dropped to avoid a spiral of death. */
+  maxSubSteps?: number;
+};
+
+/**
+ * ClockService converts frame timestamps into a fixed number of simulation steps,
+ * so the simulation runs at the same speed regardless of the display refresh rate.
+ */
+export class ClockService {
+  private readonly eventEmitter;
+  private readonly fixedTimeStep: number;
+  private readonly maxSubSteps: number;
+
+  private lastTimestamp: number | null = null;
+  private accumulator = 0;
+  private elapsedTime = 0;
+  private timeScale = 1;
+  private paused = false;
+
+  /**
+   * Creates a new ClockService instance.
+   * @param eventEmitter The event emitter used for emitting events.
+   * @param options The clock options.
+   */
+  constructor(eventEmitter: DefaultEventEmitter, options: ClockOptions = {}) {
+    this.eventEmitter = eventEmitter;
+    this.fixedTimeStep = options.fixedTimeStep ?? 1 / 60;
+    this.maxSubSteps = options.maxSubSteps ?? 5;
+  }
+
+  /**
+   * Advances the clock to the given timestamp.
+   * @param timestamp The current timestamp, in milliseconds (e.g. the requestAnimationFrame timestamp).
+   * @returns The number of fixed steps to simulate for this frame.
+   */
+  tick(timestamp: number): number {
+    const frameDelta = this.lastTimestamp === null ? 0 : Math.max(0, (timestamp - this.lastTimestamp) / 1000);
+    this.lastTimestamp = timestamp;
+    if (this.paused) return 0;
+
+    this.accumulator += frameDelta * this.timeScale;
+    const steps = Math.min(Math.floor(this.accumulator / this.fixedTimeStep), this.maxSubSteps);
+    this.accumulator -= steps * this.fixedTimeStep;
+    if (steps === this.maxSubSteps) {
+      // drop the time we could not catch up with, e.g. after the tab was in the background.
+      this.accumulator = Math.min(this.accumulator, this.fixedTimeStep);
+    }
+    this.elapsedTime += steps * this.fixedTimeStep;
+    return steps;
+  }
+
+  pause() {
+    if (this.paused) return;
+    this.paused = true;
+    this.eventEmitter.emit('clockPaused', {});
+  }
+
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    this.eventEmitter.emit('clockResumed', {});
+  }
+
+  /**
+   * Sets the time scale of the simulation.
+   * @param timeScale 1.0 is real time, 0.5 is half speed, 2.0 is double speed.
+   */
+  setTimeScale(timeScale: number) {
+    this.timeScale = Math.max(0, timeScale);
+    this.eventEmitter.emit('timeScaleUpdated', { timeScale: this.timeScale });
+  }
+
+  getTimeScale(): number {
+    return this.timeScale;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** Gets the duration of a single simulation step, in seconds. */
+  getFixedTimeStep(): number {
+    return this.fixedTimeStep;
+  }
+
+  /** Gets the simulated time, in seconds. Does not advance while paused and is affected by the time scale. */
+  getElapsedTime(): number {
+    return this.elapsedTime;
+  }
+}
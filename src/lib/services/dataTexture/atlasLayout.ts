@@ -0,0 +1,98 @@
+/**
+ * Where the meshes of a sequence atlas lie. Each mesh fills a cell of size × size texels; the cells fill rows of `columns` from the bottom left.
+ * A single row is the strip layout of baked atlases. Cells past the last mesh are left empty.
+ */
+export type AtlasLayout = {
+  size: number;
+  meshCount: number;
+  columns: number;
+  rows: number;
+};
+
+/**
+ * Lays out an atlas within the texture size limit of the GPU. The meshes stay in one row while it fits, and wrap into as few, evenly filled rows as needed otherwise.
+ * @param size The width and height of the cell of each mesh.
+ * @param meshCount The number of meshes.
+ * @param maxTextureSize The largest texture width and height, e.g. renderer.capabilities.maxTextureSize. Unlimited by default.
+ * @returns The layout.
+ * @throws When the meshes do not fit even in a square atlas of the largest size.
+ */
+export function getAtlasLayout(size: number, meshCount: number, maxTextureSize = Infinity): AtlasLayout {
+  const maxColumns = Math.floor(maxTextureSize / size);
+  if (maxColumns < 1 || Math.ceil(meshCount / maxColumns) > maxColumns) {
+    throw new Error(`${meshCount} meshes of ${size}x${size} texels do not fit in an atlas of at most ${maxTextureSize}x${maxTextureSize}.`);
+  }
+  const rows = Math.max(1, Math.ceil(meshCount / maxColumns));
+  return { size, meshCount, columns: Math.ceil(meshCount / rows), rows };
+}
+
+/**
+ * Gets the width and height of an atlas in texels.
+ */
+export function getAtlasDimensions(layout: AtlasLayout): { width: number; height: number } {
+  return { width: layout.columns * layout.size, height: layout.rows * layout.size };
+}
+
+/**
+ * Copies the texels of one mesh out of an atlas, 4 floats each.
+ * @param data The atlas data.
+ * @param layout The layout of the atlas.
+ * @param meshIndex The index of the mesh.
+ * @returns The texels of the mesh, row by row.
+ */
+export function readAtlasCell(data: Float32Array, layout: AtlasLayout, meshIndex: number): Float32Array {
+  const { size } = layout;
+  const cell = new Float32Array(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    const offset = getRowOffset(layout, meshIndex, y);
+    cell.set(data.subarray(offset, offset + size * 4), y * size * 4);
+  }
+  return cell;
+}
+
+/**
+ * Copies the texels of one mesh into its cell of an atlas.
+ * @param data The atlas data.
+ * @param layout The layout of the atlas.
+ * @param meshIndex The index of the mesh.
+ * @param cell The texels of the mesh, row by row, 4 floats each.
+ */
+export function writeAtlasCell(data: Float32Array, layout: AtlasLayout, meshIndex: number, cell: Float32Array) {
+  const { size } = layout;
+  for (let y = 0; y < size; y++) data.set(cell.subarray(y * size * 4, (y + 1) * size * 4), getRowOffset(layout, meshIndex, y));
+}
+
+/**
+ * Copies an atlas into another layout of the same meshes.
+ * @param data The atlas data.
+ * @param from The layout of the data.
+ * @param to The new layout.
+ * @returns The data in the new layout, or the data itself when the layouts match.
+ */
+export function convertAtlasLayout(data: Float32Array, from: AtlasLayout, to: AtlasLayout): Float32Array {
+  if (from.columns === to.columns) return data;
+  const { width, height } = getAtlasDimensions(to);
+  const converted = new Float32Array(width * height * 4);
+  for (let mesh = 0; mesh < from.meshCount; mesh++) writeAtlasCell(converted, to, mesh, readAtlasCell(data, from, mesh));
+  return converted;
+}
+
+/**
+ * Gets the texels of all meshes in an atlas, without the empty cells.
+ * @returns The atlas data itself when it has no empty cells.
+ */
+export function getAtlasTexels(data: Float32Array, layout: AtlasLayout): Float32Array {
+  if (layout.columns * layout.rows === layout.meshCount) return data;
+  const texels = new Float32Array(layout.meshCount * layout.size * layout.size * 4);
+  for (let mesh = 0; mesh < layout.meshCount; mesh++) texels.set(readAtlasCell(data, layout, mesh), mesh * layout.size * layout.size * 4);
+  return texels;
+}
+
+/**
+ * The offset of the first float of a row of a mesh within the atlas data.
+ */
+function getRowOffset(layout: AtlasLayout, meshIndex: number, y: number) {
+  const column = meshIndex % layout.columns;
+  const row = Math.floor(meshIndex / layout.columns);
+  return ((row * layout.size + y) * layout.columns * layout.size + column * layout.size) * 4;
+}
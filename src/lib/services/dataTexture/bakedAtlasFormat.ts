@@ -0,0 +1,146 @@
+import { BakedAtlas, MeshCorrespondence } from '@/lib/types';
+
+// "IONA" in ASCII
+const MAGIC = 0x414e4f49;
+const FORMAT_VERSION = 1;
+// Magic, format version and header length, 4 bytes each
+const PREAMBLE_SIZE = 12;
+
+/**
+ * Value encodings of the channels. Positions keep full precision; normals are unit vectors and colors are clamped to 0..1.
+ * - float32: 4 bytes per value.
+ * - snorm8: 1 byte per value, -1..1.
+ * - unorm16: 2 bytes per value, 0..1, enough for linear colors.
+ */
+type ChannelFormat = 'float32' | 'snorm8' | 'unorm16';
+
+type ChannelName = 'positions' | 'normals' | 'colors';
+
+type BakedAtlasHeader = {
+  textureSize: number;
+  meshIDs: string[];
+  seed?: number;
+  correspondence: MeshCorrespondence;
+  channels: { name: ChannelName; format: ChannelFormat }[];
+};
+
+const CHANNELS: BakedAtlasHeader['channels'] = [
+  { name: 'positions', format: 'float32' },
+  { name: 'normals', format: 'snorm8' },
+  { name: 'colors', format: 'unorm16' },
+];
+
+const BYTES_PER_VALUE: Record<ChannelFormat, number> = { float32: 4, snorm8: 1, unorm16: 2 };
+
+/**
+ * Writes a baked atlas in the binary .ionian format:
+ * the magic "IONA", the format version and the byte length of a JSON header as little-endian uint32s,
+ * the header with the texture size, mesh IDs, seed, correspondence and channel formats,
+ * then each channel in header order. Every section starts at a multiple of 4 bytes.
+ * @param atlas The atlas.
+ * @returns The file contents.
+ */
+export function encodeBakedAtlas(atlas: BakedAtlas): ArrayBuffer {
+  const valueCount = getValueCount(atlas.textureSize, atlas.meshIDs.length);
+  for (const { name } of CHANNELS) {
+    if (atlas[name].length !== valueCount) throw new Error(`The ${name} of the atlas have ${atlas[name].length} values, expected ${valueCount}.`);
+  }
+
+  const header: BakedAtlasHeader = {
+    textureSize: atlas.textureSize,
+    meshIDs: atlas.meshIDs,
+    seed: atlas.seed,
+    correspondence: atlas.correspondence,
+    channels: CHANNELS,
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  let byteLength = align(PREAMBLE_SIZE + headerBytes.length);
+  for (const { format } of CHANNELS) byteLength += align(valueCount * BYTES_PER_VALUE[format]);
+
+  const buffer = new ArrayBuffer(byteLength);
+  const view = new DataView(buffer);
+  view.setUint32(0, MAGIC, true);
+  view.setUint32(4, FORMAT_VERSION, true);
+  view.setUint32(8, headerBytes.length, true);
+  new Uint8Array(buffer).set(headerBytes, PREAMBLE_SIZE);
+
+  let offset = align(PREAMBLE_SIZE + headerBytes.length);
+  for (const { name, format } of CHANNELS) {
+    writeChannel(view, offset, atlas[name], format);
+    offset += align(valueCount * BYTES_PER_VALUE[format]);
+  }
+  return buffer;
+}
+
+/**
+ * Reads a baked atlas written by encodeBakedAtlas.
+ * @param buffer The file contents.
+ * @returns The atlas. Channels missing from the file get zero normals and white colors.
+ * @throws When the buffer is not a .ionian file of a supported version, or is truncated.
+ */
+export function decodeBakedAtlas(buffer: ArrayBuffer): BakedAtlas {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < PREAMBLE_SIZE || view.getUint32(0, true) !== MAGIC) throw new Error('Not an .ionian atlas.');
+  const version = view.getUint32(4, true);
+  if (version !== FORMAT_VERSION) throw new Error(`Unsupported .ionian format version ${version}.`);
+
+  const headerLength = view.getUint32(8, true);
+  if (PREAMBLE_SIZE + headerLength > buffer.byteLength) throw new Error('The .ionian atlas is truncated.');
+  const header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, PREAMBLE_SIZE, headerLength))) as BakedAtlasHeader;
+  if (!(header.textureSize > 0) || !Array.isArray(header.meshIDs) || header.meshIDs.length === 0 || !Array.isArray(header.channels)) {
+    throw new Error('The .ionian atlas header is invalid.');
+  }
+
+  const valueCount = getValueCount(header.textureSize, header.meshIDs.length);
+  const atlas: BakedAtlas = {
+    textureSize: header.textureSize,
+    meshIDs: header.meshIDs,
+    seed: header.seed,
+    correspondence: header.correspondence,
+    positions: new Float32Array(valueCount),
+    normals: new Float32Array(valueCount),
+    colors: new Float32Array(valueCount).fill(1),
+  };
+
+  let offset = align(PREAMBLE_SIZE + headerLength);
+  for (const { name, format } of header.channels) {
+    const bytesPerValue = BYTES_PER_VALUE[format];
+    if (!bytesPerValue) throw new Error(`Unsupported .ionian channel format ${format}.`);
+    const byteLength = valueCount * bytesPerValue;
+    if (offset + byteLength > buffer.byteLength) throw new Error('The .ionian atlas is truncated.');
+    if (CHANNELS.some((channel) => channel.name === name)) readChannel(view, offset, atlas[name], format); // newer channels are skipped
+    offset += align(byteLength);
+  }
+  return atlas;
+}
+
+function writeChannel(view: DataView, offset: number, values: Float32Array, format: ChannelFormat) {
+  for (let i = 0; i < values.length; i++) {
+    if (format === 'float32') view.setFloat32(offset + i * 4, values[i], true);
+    else if (format === 'snorm8') view.setInt8(offset + i, Math.round(clampUnit(values[i], -1) * 127));
+    else view.setUint16(offset + i * 2, Math.round(clampUnit(values[i], 0) * 65535), true);
+  }
+}
+
+function readChannel(view: DataView, offset: number, values: Float32Array, format: ChannelFormat) {
+  for (let i = 0; i < values.length; i++) {
+    if (format === 'float32') values[i] = view.getFloat32(offset + i * 4, true);
+    else if (format === 'snorm8') values[i] = Math.max(-1, view.getInt8(offset + i) / 127);
+    else values[i] = view.getUint16(offset + i * 2, true) / 65535;
+  }
+}
+
+/**
+ * The number of floats per channel: 4 per texel of an atlas with the meshes side by side.
+ */
+function getValueCount(textureSize: number, meshCount: number) {
+  return textureSize * textureSize * meshCount * 4;
+}
+
+function clampUnit(value: number, min: number) {
+  return Math.min(1, Math.max(min, value));
+}
+
+function align(byteLength: number) {
+  return Math.ceil(byteLength / 4) * 4;
+}
@@ -0,0 +1,115 @@
+import { RandomFunction } from '@/lib/types';
+
+// Bits per axis of the Hilbert curve, so keys fit in 30 bits.
+const CURVE_BITS = 10;
+// Swap candidates of the assignment refinement are up to this many ranks apart along the curve, mostly close ones.
+const ASSIGNMENT_WINDOW = 4096;
+const ASSIGNMENT_PASSES = 16;
+
+/**
+ * Reorders samples, 4 floats each.
+ * @param samples The samples.
+ * @param order The sample index of each particle, e.g. from getCurveOrder.
+ * @returns The reordered samples.
+ */
+export function applyOrder(samples: Float32Array, order: Uint32Array): Float32Array {
+  const sorted = new Float32Array(samples.length);
+  order.forEach((source, target) => sorted.set(samples.subarray(source * 4, source * 4 + 4), target * 4));
+  return sorted;
+}
+
+/**
+ * Approximates the assignment with the least squared travel from the previous mesh, by swapping the samples of particles that are close on the previous mesh.
+ * @param previous The targets of the previous mesh, 4 floats each, in particle order.
+ * @param current The samples of the current mesh, 4 floats each.
+ * @param order The sample index of each particle, refined in place. Should start from getCurveOrder.
+ * @param random The random function that picks the swap candidates.
+ */
+export function refineAssignment(previous: Float32Array, current: Float32Array, order: Uint32Array, random: RandomFunction) {
+  const count = Math.min(previous.length / 4, order.length);
+  const neighbors = getCurveOrder(previous.subarray(0, count * 4));
+  const cost = (particle: number, sample: number) => {
+    const dx = previous[particle * 4] - current[sample * 4];
+    const dy = previous[particle * 4 + 1] - current[sample * 4 + 1];
+    const dz = previous[particle * 4 + 2] - current[sample * 4 + 2];
+    return dx * dx + dy * dy + dz * dz;
+  };
+
+  for (let pass = 0; pass < ASSIGNMENT_PASSES; pass++) {
+    for (let rank = 0; rank < count - 1; rank++) {
+      const a = neighbors[rank];
+      const b = neighbors[Math.min(count - 1, rank + 1 + Math.floor(random() ** 4 * ASSIGNMENT_WINDOW))]; // skewed towards neighbors
+      const sampleA = order[a];
+      const sampleB = order[b];
+      if (cost(a, sampleB) + cost(b, sampleA) >= cost(a, sampleA) + cost(b, sampleB)) continue;
+      order[a] = sampleB;
+      order[b] = sampleA;
+    }
+  }
+}
+
+/**
+ * Sorts samples along a Hilbert curve through their bounds, so that samples at the same rank on two similar meshes lie in similar regions.
+ * The bounds are normalized per axis, so differently proportioned meshes still line up.
+ * @param samples The samples, 4 floats each.
+ * @returns The sample indices in curve order.
+ */
+export function getCurveOrder(samples: Float32Array): Uint32Array {
+  const count = samples.length / 4;
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let index = 0; index < count; index++) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], samples[index * 4 + axis]);
+      max[axis] = Math.max(max[axis], samples[index * 4 + axis]);
+    }
+  }
+
+  const cells = (1 << CURVE_BITS) - 1;
+  const keys = new Float64Array(count);
+  const coordinates = [0, 0, 0];
+  for (let index = 0; index < count; index++) {
+    for (let axis = 0; axis < 3; axis++) {
+      const extent = max[axis] - min[axis];
+      coordinates[axis] = extent > 0 ? Math.round(((samples[index * 4 + axis] - min[axis]) / extent) * cells) : 0;
+    }
+    keys[index] = getHilbertIndex(coordinates);
+  }
+
+  const order = new Uint32Array(count).map((_, index) => index);
+  return order.sort((a, b) => keys[a] - keys[b]);
+}
+
+/**
+ * Maps grid coordinates to their index along a 3D Hilbert curve, following Skilling's transpose algorithm.
+ * @param coordinates The coordinates, CURVE_BITS bits each. Overwritten.
+ */
+function getHilbertIndex(coordinates: number[]): number {
+  const top = 1 << (CURVE_BITS - 1);
+  for (let q = top; q > 1; q >>= 1) {
+    const p = q - 1;
+    for (let axis = 0; axis < 3; axis++) {
+      if (coordinates[axis] & q) {
+        coordinates[0] ^= p;
+      } else {
+        const t = (coordinates[0] ^ coordinates[axis]) & p;
+        coordinates[0] ^= t;
+        coordinates[axis] ^= t;
+      }
+    }
+  }
+
+  // Gray encode
+  coordinates[1] ^= coordinates[0];
+  coordinates[2] ^= coordinates[1];
+  let t = 0;
+  for (let q = top; q > 1; q >>= 1) {
+    if (coordinates[2] & q) t ^= q - 1;
+  }
+
+  let index = 0;
+  for (let bit = CURVE_BITS - 1; bit >= 0; bit--) {
+    for (let axis = 0; axis < 3; axis++) index = index * 2 + (((coordinates[axis] ^ t) >> bit) & 1);
+  }
+  return index;
+}
@@ -1,27 +1,58 @@
 import { DefaultEventEmitter } from '@/lib/events/defaultEventEmitter';
-import { MeshData, ServiceState } from '@/lib/types';
-import { createDataTexture } from '@/lib/utils';
+import { BakedAtlas, MeshCorrespondence, MeshData, MeshSamplingOptions, ServiceState } from '@/lib/types';
+import { createDataTexture, hashString } from '@/lib/utils';
 import * as THREE from 'three';
-import { MeshSurfaceSampler } from 'three/examples/jsm/math/MeshSurfaceSampler.js';
+import { AtlasLayout, convertAtlasLayout, getAtlasDimensions, getAtlasLayout } from './atlasLayout';
+import { SampleArrays } from './meshSampling';
+import { getSamplingJobKey, MemorySampleCache, SampleCacheStorage } from './sampleCache';
+import { SamplingJob, SamplingResult } from './samplingJobs';
+import { ColorMap, getInteriorRatio, getSamplingKey, getVertexWeights, LuminanceMap, readColorMap, readLuminanceMap } from './samplingWeights';
+import { SamplingWorkerPool } from './samplingWorkerPool';
+
+/**
+ * The particle targets sampled from a mesh, or from a mesh sequence in an atlas, with the surface at each target.
+ * Normals are zero for targets inside the mesh. Colors are linear and combine the vertex colors, the base color map and the material color.
+ */
+export type MeshSampleTextures = {
+  positions: THREE.DataTexture;
+  normals: THREE.DataTexture;
+  colors: THREE.DataTexture;
+};
+
+/**
+ * The sample textures of a mesh sequence, with a cell per mesh as described by the layout.
+ */
+export type SequenceAtlas = MeshSampleTextures & { layout: AtlasLayout };
 
 /**
  * DataTextureManager is responsible for managing data textures used for mesh sampling.
  */
 export class DataTextureService {
   private textureSize: number;
-  private dataTextures: Map<string, THREE.DataTexture>;
+  private readonly seed?: number;
+  private meshSamples: Map<string, MeshSampleTextures>;
+  private readonly pendingSamples = new Map<string, Promise<MeshSampleTextures>>();
+  private readonly workerPool: SamplingWorkerPool;
+  private readonly sampleCache: SampleCacheStorage;
   private eventEmitter;
-  private currentAtlas: THREE.DataTexture | null = null; // Cache the current atlas
+  private currentAtlas: SequenceAtlas | null = null; // Cache the current atlas
+  private atlasRequest = 0;
 
   /**
    * Creates a new DataTextureManager instance.
    * @param eventEmitter
    * @param textureSize
+   * @param seed The seed for mesh sampling. When omitted, sampling uses Math.random.
+   * @param workerCount The number of sampling workers, see SamplingWorkerPool. 0 samples on the main thread.
+   * @param sampleCache Where sampled meshes are kept across texture size changes. Defaults to an in-memory cache.
    */
-  constructor(eventEmitter: DefaultEventEmitter, textureSize: number) {
+  constructor(eventEmitter: DefaultEventEmitter, textureSize: number, seed?: number, workerCount?: number, sampleCache?: SampleCacheStorage) {
     this.eventEmitter = eventEmitter;
     this.textureSize = textureSize;
-    this.dataTextures = new Map<string, THREE.DataTexture>();
+    this.seed = seed;
+    this.workerPool = new SamplingWorkerPool(workerCount);
+    this.sampleCache = sampleCache ?? new MemorySampleCache();
+    this.meshSamples = new Map<string, MeshSampleTextures>();
     this.updateServiceState('ready');
   }
 
@@ -29,140 +60,291 @@ export class DataTextureService {
     if (this.textureSize === textureSize) return;
     this.textureSize = textureSize;
     // Clear cache and dispose old textures
-    this.dataTextures.forEach((texture) => texture.dispose());
-    this.dataTextures.clear();
+    this.meshSamples.forEach(disposeSampleTextures);
+    this.meshSamples.clear();
+    this.pendingSamples.clear(); // their results are not cached
     if (this.currentAtlas) {
-      this.currentAtlas.dispose();
+      disposeSampleTextures(this.currentAtlas);
       this.currentAtlas = null;
     }
   }
 
   /**
-   * Prepares a mesh for sampling.
+   * Prepares a mesh or point cloud for sampling.
    * @returns The prepared data texture.
    * @param asset The asset to prepare.
+   * @param options How the mesh is sampled. Weights that cannot be applied fall back to even sampling, and meshes without an inside to surface sampling.
+   * Point clouds ignore the options, see samplePoints.
    */
-  async getDataTexture(asset: THREE.Mesh) {
-    const cachedTexture = this.dataTextures.get(asset.uuid); // Use UUID for uniqueness
-    if (cachedTexture) {
-      return cachedTexture;
+  async getDataTexture(asset: THREE.Mesh | THREE.Points, options: MeshSamplingOptions = {}) {
+    return (await this.getMeshSamples(asset, options)).positions;
+  }
+
+  /**
+   * Samples a mesh or point cloud, baking the surface normal and color of every target alongside its position.
+   * The sampling runs on the worker pool; concurrent requests for the same samples share one job.
+   * Samples are looked up in the sample cache by content first, and stored there after sampling.
+   * @param asset The mesh or point cloud to sample.
+   * @param options How the mesh is sampled, see getDataTexture.
+   * @returns The sample textures, cached until the texture size changes.
+   */
+  async getMeshSamples(asset: THREE.Mesh | THREE.Points, options: MeshSamplingOptions = {}): Promise<MeshSampleTextures> {
+    const key = asset instanceof THREE.Points ? `${asset.uuid}:points` : `${asset.uuid}:${getSamplingKey(options)}`; // Use UUID for uniqueness
+    const cachedSamples = this.meshSamples.get(key);
+    if (cachedSamples) {
+      return cachedSamples;
     }
 
+    let pendingSamples = this.pendingSamples.get(key);
+    if (!pendingSamples) {
+      const samples = this.sampleAsset(asset, options, key).finally(() => {
+        if (this.pendingSamples.get(key) === samples) this.pendingSamples.delete(key);
+      });
+      this.pendingSamples.set(key, samples);
+      pendingSamples = samples;
+    }
+    return pendingSamples;
+  }
+
+  private async sampleAsset(asset: THREE.Mesh | THREE.Points, options: MeshSamplingOptions, key: string): Promise<MeshSampleTextures> {
+    const size = this.textureSize;
+    const job = this.createSamplingJob(asset, options, size);
+    const cacheKey = getSamplingJobKey(job);
+    let result: SamplingResult | undefined = await this.sampleCache.get(cacheKey).catch(() => undefined); // the cache is optional
+    if (result) {
+      this.eventEmitter.emit('sampleCacheHit', { id: asset.name, key: cacheKey });
+    } else {
+      this.eventEmitter.emit('sampleCacheMiss', { id: asset.name, key: cacheKey });
+      result = await this.workerPool.run(job);
+      this.sampleCache.set(cacheKey, result).catch((error) => console.warn(`failed to cache the samples of "${asset.name}".`, error));
+    }
+    if (result.interiorMisses) {
+      this.eventEmitter.emit('invalidRequest', {
+        message: `mesh "${asset.name}" has no closed interior. ${result.interiorMisses} particles were placed on its surface.`,
+      });
+    }
+
+    const samples = {
+      positions: createDataTexture(result.positions, size),
+      normals: createDataTexture(result.normals, size),
+      colors: createDataTexture(result.colors, size),
+    };
+    samples.positions.name = asset.name; // Keep name for reference
+    samples.normals.name = `${asset.name}-normals`;
+    samples.colors.name = `${asset.name}-colors`;
+    if (size === this.textureSize) this.meshSamples.set(key, samples); // not cached when resized meanwhile
+    return samples;
+  }
+
+  /**
+   * Gathers everything the sampling needs from the asset on the main thread, including the texture reads that need a canvas.
+   */
+  private createSamplingJob(asset: THREE.Mesh | THREE.Points, options: MeshSamplingOptions, size: number): Exclude<SamplingJob, { type: 'atlas' }> {
     const meshData = parseMeshData(asset);
-    const array = sampleMesh(meshData, this.textureSize);
-    const dataTexture = createDataTexture(array, this.textureSize);
-    dataTexture.name = asset.name; // Keep name for reference
-    this.dataTextures.set(asset.uuid, dataTexture); // Cache using UUID
-    return dataTexture;
+    const material = (Array.isArray(asset.material) ? asset.material[0] : asset.material) as Partial<THREE.MeshStandardMaterial> | undefined;
+    const baseColor = material?.color ?? new THREE.Color(1, 1, 1);
+    const seed = this.getSeed(asset.name);
+    if (asset instanceof THREE.Points) {
+      return { type: 'points', meshData, size, seed, baseColor };
+    }
+
+    let luminanceMap: LuminanceMap | null = null;
+    const weight = options.weight;
+    if (weight?.type === 'texture') {
+      luminanceMap = meshData.uv ? readLuminanceMap(weight.texture, weight.channel) : null;
+      if (!luminanceMap) {
+        this.eventEmitter.emit('invalidRequest', { message: `texture weight of mesh "${asset.name}" needs UVs and a readable image. sampling evenly.` });
+      }
+    } else if (weight) {
+      meshData.weight = getVertexWeights(asset.geometry, weight) ?? undefined;
+      if (!meshData.weight) {
+        const name = weight.type === 'vertex-color' ? 'color' : (weight.name ?? 'weight');
+        this.eventEmitter.emit('invalidRequest', { message: `mesh "${asset.name}" has no "${name}" attribute. sampling evenly.` });
+      }
+    }
+
+    const colorMap = material?.map && meshData.uv ? readColorMap(material.map) : null;
+    if (colorMap && material?.map?.colorSpace === THREE.SRGBColorSpace) convertColorMapToLinear(colorMap);
+
+    return {
+      type: 'mesh',
+      meshData,
+      size,
+      seed,
+      options: {
+        luminanceMap,
+        interiorRatio: getInteriorRatio(options),
+        thickness: Math.max(0, options.thickness ?? 0),
+        colorMap,
+        baseColor,
+      },
+    };
   }
 
   async dispose() {
-    this.dataTextures.forEach((texture) => texture.dispose());
-    this.dataTextures.clear();
+    this.workerPool.dispose();
+    this.meshSamples.forEach(disposeSampleTextures);
+    this.meshSamples.clear();
+    this.pendingSamples.clear();
     if (this.currentAtlas) {
-      this.currentAtlas.dispose();
+      disposeSampleTextures(this.currentAtlas);
       this.currentAtlas = null;
     }
     this.updateServiceState('disposed');
   }
 
-  private updateServiceState(serviceState: ServiceState) {
+  /**
+   * Gets the seed for sampling the given mesh.
+   * Seeds are derived from the mesh ID, so the result does not depend on sampling order.
+   * @param id The ID of the mesh.
+   * @returns The seed, or undefined to sample with Math.random.
+   */
+  private getSeed(id: string): number | undefined {
+    if (this.seed === undefined) return undefined;
+    return this.seed ^ hashString(id);
+  }
+
+  private updateServiceState(serviceState: ServiceState, progress?: number) {
     // Debounce or manage state updates if they become too frequent
-    this.eventEmitter.emit('serviceStateUpdated', { type: 'data-texture', state: serviceState });
+    this.eventEmitter.emit('serviceStateUpdated', { type: 'data-texture', state: serviceState, progress });
   }
 
   /**
-   * Creates a Texture Atlas containing position data for a sequence of meshes.
-   * @param meshes An array of THREE.Mesh objects in the desired sequence.
-   * @param singleTextureSize The desired resolution (width/height) for each mesh's data within the atlas.
-   * @returns A Promise resolving to the generated DataTexture atlas.
+   * Uses a baked atlas as the current atlas, superseding any atlas that is still being built.
+   * @param baked The baked atlas, see decodeBakedAtlas. Baked atlases keep the meshes in a single row.
+   * @param layout The layout of the atlas textures. Defaults to the layout of the baked atlas.
+   * @returns The atlas textures, which share the arrays of the baked atlas when the layouts match.
    */
-  async createSequenceDataTextureAtlas(meshes: THREE.Mesh[], singleTextureSize: number): Promise<THREE.DataTexture> {
-    this.updateServiceState('loading');
-    if (this.currentAtlas) {
-      this.currentAtlas.dispose(); // Dispose previous atlas
-      this.currentAtlas = null;
-    }
+  setBakedAtlas(baked: BakedAtlas, layout?: AtlasLayout): SequenceAtlas {
+    this.atlasRequest++;
+    const bakedLayout = getAtlasLayout(baked.textureSize, baked.meshIDs.length);
+    layout ??= bakedLayout;
+    const data = {
+      positions: convertAtlasLayout(baked.positions, bakedLayout, layout),
+      normals: convertAtlasLayout(baked.normals, bakedLayout, layout),
+      colors: convertAtlasLayout(baked.colors, bakedLayout, layout),
+    };
+    const atlas = createAtlasTextures(data, layout, baked.meshIDs);
+    if (this.currentAtlas) disposeSampleTextures(this.currentAtlas);
+    this.currentAtlas = atlas;
+    this.updateServiceState('ready', 1);
+    return atlas;
+  }
 
+  /**
+   * Creates Texture Atlases containing the position, normal and color data for a sequence of meshes.
+   * The meshes are sampled in parallel on the worker pool, which then lays out the atlas. The service state reports the progress while loading.
+   * A request that is superseded by a newer one before it finishes rejects, and the previous atlas stays intact until the newer one is ready.
+   * @param meshes The meshes and point clouds in the desired sequence.
+   * @param layout The layout of the atlas, see getAtlasLayout. Its cell size must be the texture size of the service.
+   * @param samplingOptions The sampling options of each mesh.
+   * @param correspondence How the samples of neighboring meshes are matched up.
+   * @returns A Promise resolving to the generated atlases, which share their layout.
+   */
+  async createSequenceDataTextureAtlas(
+    meshes: (THREE.Mesh | THREE.Points)[],
+    layout: AtlasLayout,
+    samplingOptions: (MeshSamplingOptions | undefined)[] = [],
+    correspondence: MeshCorrespondence = 'none',
+  ): Promise<SequenceAtlas> {
     const numMeshes = meshes.length;
     if (numMeshes === 0) {
       throw new Error('Mesh array cannot be empty.');
     }
+    if (layout.meshCount !== numMeshes) {
+      throw new Error(`The atlas layout has ${layout.meshCount} cells for ${numMeshes} meshes.`);
+    }
 
-    const atlasWidth = singleTextureSize * numMeshes;
-    const atlasHeight = singleTextureSize; // Atlas height should be the height of a single texture
-    const atlasData = new Float32Array(atlasWidth * atlasHeight * 4); // Correct size for RGBA Float32Array
-
+    const request = ++this.atlasRequest;
+    this.updateServiceState('loading', 0);
     try {
-      for (let i = 0; i < numMeshes; i++) {
-        const mesh = meshes[i];
-        const meshDataTexture = await this.getDataTexture(mesh);
-        const meshTextureData = meshDataTexture.image.data as Float32Array;
-
-        for (let y = 0; y < singleTextureSize; y++) {
-          for (let x = 0; x < singleTextureSize; x++) {
-            const sourceIndex = (y * singleTextureSize + x) * 4;
-            const targetX = x + i * singleTextureSize;
-            const targetIndex = (y * atlasWidth + targetX) * 4;
-
-            atlasData[targetIndex] = meshTextureData[sourceIndex]; // R (x)
-            atlasData[targetIndex + 1] = meshTextureData[sourceIndex + 1]; // G (y)
-            atlasData[targetIndex + 2] = meshTextureData[sourceIndex + 2]; // B (z)
-            atlasData[targetIndex + 3] = meshTextureData[sourceIndex + 3]; // A (w)
-          }
-        }
-      }
+      // One step per mesh, and one for the layout
+      let sampledMeshes = 0;
+      const samples = await Promise.all(
+        meshes.map(async (mesh, i) => {
+          const meshSamples = await this.getMeshSamples(mesh, samplingOptions[i]);
+          sampledMeshes++;
+          if (request === this.atlasRequest) this.updateServiceState('loading', sampledMeshes / (numMeshes + 1));
+          return {
+            positions: meshSamples.positions.image.data as Float32Array,
+            normals: meshSamples.normals.image.data as Float32Array,
+            colors: meshSamples.colors.image.data as Float32Array,
+          };
+        }),
+      );
+      const atlasData = await this.workerPool.run({
+        type: 'atlas',
+        samples,
+        layout,
+        correspondence,
+        seeds: meshes.map((mesh) => this.getSeed(mesh.name)),
+      });
 
-      const atlasTexture = new THREE.DataTexture(atlasData, atlasWidth, atlasHeight, THREE.RGBAFormat, THREE.FloatType);
-      atlasTexture.needsUpdate = true; // createDataTexture utility likely sets this, but be explicit
-      atlasTexture.name = `atlas-${meshes.map((m) => m.name).join('-')}`;
-      this.currentAtlas = atlasTexture; // Cache the new atlas
-      this.updateServiceState('ready');
-      return atlasTexture;
+      const atlas = createAtlasTextures(
+        atlasData,
+        layout,
+        meshes.map((mesh) => mesh.name),
+      );
+      if (request !== this.atlasRequest) {
+        disposeSampleTextures(atlas);
+        throw new Error('The atlas was superseded by a newer request.');
+      }
+      if (this.currentAtlas) disposeSampleTextures(this.currentAtlas); // Dispose previous atlas
+      this.currentAtlas = atlas; // Cache the new atlas
+      this.updateServiceState('ready', 1);
+      return atlas;
     } catch (error) {
-      this.updateServiceState('error');
+      if (request === this.atlasRequest) this.updateServiceState('error');
       throw error; // Re-throw error for ParticlesEngine to catch
     }
   }
 }
 
+function createAtlasTextures(data: SampleArrays, layout: AtlasLayout, meshIDs: string[]): SequenceAtlas {
+  const { width, height } = getAtlasDimensions(layout);
+  const atlasName = `atlas-${meshIDs.join('-')}`;
+  const createAtlasTexture = (data: Float32Array, name: string) => {
+    const texture = new THREE.DataTexture(data, width, height, THREE.RGBAFormat, THREE.FloatType);
+    texture.needsUpdate = true; // createDataTexture utility likely sets this, but be explicit
+    texture.name = name;
+    return texture;
+  };
+  return {
+    positions: createAtlasTexture(data.positions, atlasName),
+    normals: createAtlasTexture(data.normals, `${atlasName}-normals`),
+    colors: createAtlasTexture(data.colors, `${atlasName}-colors`),
+    layout,
+  };
+}
+
+function disposeSampleTextures(samples: MeshSampleTextures) {
+  samples.positions.dispose();
+  samples.normals.dispose();
+  samples.colors.dispose();
+}
+
+function convertColorMapToLinear(map: ColorMap) {
+  const color = new THREE.Color();
+  for (let offset = 0; offset < map.data.length; offset += 4) {
+    color.fromArray(map.data, offset).convertSRGBToLinear().toArray(map.data, offset);
+  }
+}
+
 /**
  * Parses mesh data into a simplified format.
- * @param mesh The mesh to parse.
+ * @param mesh The mesh or point cloud to parse.
  * @returns The parsed mesh data.
  */
-function parseMeshData(mesh: THREE.Mesh): MeshData {
+function parseMeshData(mesh: THREE.Mesh | THREE.Points): MeshData {
   return {
     position: mesh.geometry.attributes.position.array,
     normal: (mesh.geometry.attributes.normal as THREE.BufferAttribute)?.array,
+    index: mesh.geometry.index?.array,
+    uv: (mesh.geometry.attributes.uv as THREE.BufferAttribute)?.array,
+    color: mesh.geometry.attributes.color && {
+      array: (mesh.geometry.attributes.color as THREE.BufferAttribute).array,
+      itemSize: mesh.geometry.attributes.color.itemSize,
+    },
     scale: { x: mesh.scale.x, y: mesh.scale.y, z: mesh.scale.z },
   };
 }
-
-function sampleMesh(meshData: MeshData, size: number): Float32Array {
-  const geometry = new THREE.BufferGeometry();
-  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(meshData.position), 3));
-  if (meshData.normal) {
-    geometry.setAttribute('normal', new THREE.BufferAttribute(new Float32Array(meshData.normal), 3));
-  }
-  const material = new THREE.MeshBasicMaterial();
-  const mesh = new THREE.Mesh(geometry, material);
-  mesh.scale.set(meshData.scale.x, meshData.scale.y, meshData.scale.z);
-
-  const sampler = new MeshSurfaceSampler(mesh).build();
-  const data = new Float32Array(size * size * 4);
-  const position = new THREE.Vector3();
-
-  for (let i = 0; i < size; i++) {
-    for (let j = 0; j < size; j++) {
-      const index = i * size + j;
-      sampler.sample(position);
-      data[4 * index] = position.x * meshData.scale.x;
-      data[4 * index + 1] = position.y * meshData.scale.y;
-      data[4 * index + 2] = position.z * meshData.scale.z;
-      data[4 * index + 3] = (Math.random() - 0.5) * 0.01;
-    }
-  }
-
-  return data;
-}
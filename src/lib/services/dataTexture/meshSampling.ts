@@ -0,0 +1,217 @@
+import { MeshCorrespondence, MeshData, RandomFunction } from '@/lib/types';
+import * as THREE from 'three';
+import { MeshSurfaceSampler } from 'three/examples/jsm/math/MeshSurfaceSampler.js';
+import { AtlasLayout, getAtlasDimensions, writeAtlasCell } from './atlasLayout';
+import { applyOrder, getCurveOrder, refineAssignment } from './correspondence';
+import { ColorMap, LuminanceMap, sampleColorMap, sampleLuminanceMap } from './samplingWeights';
+import { VolumeSampler } from './volumeSampler';
+
+/**
+ * The particle targets of a mesh or a mesh sequence, 4 floats per target, see MeshSampleTextures.
+ */
+export type SampleArrays = {
+  positions: Float32Array;
+  normals: Float32Array;
+  colors: Float32Array;
+};
+
+// Rejected texture-weighted samples before the brightest candidate is taken, so dark textures cannot stall sampling.
+const MAX_WEIGHTED_ATTEMPTS = 256;
+
+export type SampleMeshOptions = {
+  luminanceMap: LuminanceMap | null; // weighs the surface by texture luminance
+  interiorRatio: number; // share of samples inside the mesh
+  thickness: number; // spread of the surface samples along their normal
+  colorMap: ColorMap | null; // linear base color map
+  baseColor: THREE.Color; // linear material color
+};
+
+/**
+ * Samples the particle targets on the surface of a mesh, and inside it for volume and mixed sampling.
+ * @returns The samples, and the number of interior samples that were placed on the surface instead.
+ */
+export function sampleMesh(meshData: MeshData, size: number, random: RandomFunction, options: SampleMeshOptions): SampleArrays & { interiorMisses: number } {
+  const { luminanceMap, interiorRatio, thickness, colorMap, baseColor } = options;
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(meshData.position), 3));
+  if (meshData.normal) {
+    geometry.setAttribute('normal', new THREE.BufferAttribute(new Float32Array(meshData.normal), 3));
+  }
+  if (meshData.index) {
+    geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(meshData.index), 1));
+  }
+  if (meshData.uv) {
+    geometry.setAttribute('uv', new THREE.BufferAttribute(new Float32Array(meshData.uv), 2));
+  }
+  if (meshData.color) {
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(meshData.color.array), meshData.color.itemSize));
+  }
+  if (meshData.weight) {
+    geometry.setAttribute('weight', new THREE.BufferAttribute(new Float32Array(meshData.weight), 1));
+  }
+  const material = new THREE.MeshBasicMaterial();
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.scale.set(meshData.scale.x, meshData.scale.y, meshData.scale.z);
+
+  // setRandomGenerator is available at runtime but missing from @types/three.
+  const sampler = new MeshSurfaceSampler(mesh) as MeshSurfaceSampler & { setRandomGenerator(random: RandomFunction): MeshSurfaceSampler };
+  if (meshData.weight) sampler.setWeightAttribute('weight');
+  sampler.setRandomGenerator(random).build();
+  const positions = new Float32Array(size * size * 4);
+  const normals = new Float32Array(size * size * 4);
+  const colors = new Float32Array(size * size * 4);
+  const position = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const scale = new THREE.Vector3().copy(meshData.scale);
+  const color = new THREE.Color();
+  const mapColor = new THREE.Color();
+  const uv = new THREE.Vector2();
+  const best = { position: new THREE.Vector3(), normal: new THREE.Vector3(), color: new THREE.Color(), uv: new THREE.Vector2() };
+  const weighted = luminanceMap !== null && luminanceMap.max > 0;
+  // Dropped after the first miss, as an open mesh would miss every time
+  let volumeSampler = interiorRatio > 0 ? new VolumeSampler(meshData.position, meshData.index, random) : null;
+  let interiorMisses = 0;
+
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      const index = i * size + j;
+      let inside = interiorRatio > 0 && (interiorRatio >= 1 || random() < interiorRatio);
+      if (inside && !volumeSampler?.sample(position)) {
+        volumeSampler = null;
+        inside = false;
+        interiorMisses++;
+      }
+
+      if (inside) {
+        // Placed by the volume sampler. There is no surface here, so only the material color applies
+        normal.set(0, 0, 0);
+        color.setRGB(1, 1, 1);
+      } else {
+        color.setRGB(1, 1, 1); // stays white without vertex colors
+        if (weighted) {
+          // Rejection sampling: keep a sample with a probability proportional to the luminance under it
+          let bestLuminance = -1;
+          for (let attempt = 0; attempt < MAX_WEIGHTED_ATTEMPTS; attempt++) {
+            sampler.sample(position, normal, color, uv);
+            const sampleLuminance = sampleLuminanceMap(luminanceMap, uv.x, uv.y);
+            if (random() * luminanceMap.max < sampleLuminance) break;
+            if (sampleLuminance > bestLuminance) {
+              bestLuminance = sampleLuminance;
+              best.position.copy(position);
+              best.normal.copy(normal);
+              best.color.copy(color);
+              best.uv.copy(uv);
+            }
+            if (attempt === MAX_WEIGHTED_ATTEMPTS - 1) {
+              position.copy(best.position);
+              normal.copy(best.normal);
+              color.copy(best.color);
+              uv.copy(best.uv);
+            }
+          }
+        } else {
+          sampler.sample(position, normal, color, uv);
+        }
+        normal.divide(scale).normalize(); // normals of a scaled surface scale inversely
+        if (colorMap) color.multiply(sampleColorMap(colorMap, uv.x, uv.y, mapColor));
+      }
+      color.multiply(baseColor);
+
+      position.multiply(scale);
+      if (thickness > 0 && !inside) position.addScaledVector(normal, (random() - 0.5) * thickness);
+      position.toArray(positions, 4 * index);
+      positions[4 * index + 3] = (random() - 0.5) * 0.01;
+      normal.toArray(normals, 4 * index);
+      color.toArray(colors, 4 * index);
+      colors[4 * index + 3] = 1;
+    }
+  }
+
+  return { positions, normals, colors, interiorMisses };
+}
+
+/**
+ * Picks the particle targets from the vertices of a point cloud.
+ * Larger clouds are subsampled without repeats; smaller ones use every point before repeating any, so all points are used about equally often.
+ * Points without normals get zero normals, like the targets inside a mesh.
+ */
+export function samplePoints(meshData: MeshData, size: number, random: RandomFunction, baseColor: THREE.Color): SampleArrays {
+  const pointCount = Math.floor(meshData.position.length / 3);
+  const positions = new Float32Array(size * size * 4);
+  const normals = new Float32Array(size * size * 4);
+  const colors = new Float32Array(size * size * 4);
+  if (pointCount === 0) return { positions, normals, colors };
+
+  const points = new Uint32Array(pointCount).map((_, point) => point);
+  const position = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const scale = new THREE.Vector3().copy(meshData.scale);
+  const color = new THREE.Color();
+  let remaining = 0;
+
+  for (let index = 0; index < size * size; index++) {
+    // Partial Fisher-Yates shuffle, restarted once every point has been drawn
+    if (remaining === 0) remaining = pointCount;
+    const pick = Math.floor(random() * remaining);
+    const point = points[pick];
+    remaining--;
+    points[pick] = points[remaining];
+    points[remaining] = point;
+
+    position.fromArray(meshData.position, point * 3).multiply(scale);
+    if (meshData.normal)
+      normal
+        .fromArray(meshData.normal, point * 3)
+        .divide(scale)
+        .normalize();
+    if (meshData.color) color.fromArray(meshData.color.array, point * meshData.color.itemSize);
+    else color.setRGB(1, 1, 1);
+    color.multiply(baseColor);
+
+    position.toArray(positions, 4 * index);
+    positions[4 * index + 3] = (random() - 0.5) * 0.01;
+    normal.toArray(normals, 4 * index);
+    color.toArray(colors, 4 * index);
+    colors[4 * index + 3] = 1;
+  }
+
+  return { positions, normals, colors };
+}
+
+/**
+ * Lays out the samples of a mesh sequence in an atlas, matching them up first unless the correspondence is none.
+ * @param samples The samples of each mesh, in sequence order. Left untouched.
+ * @param layout The layout of the atlas, with a cell per mesh.
+ * @param correspondence How the samples of neighboring meshes are matched up.
+ * @param randoms The random function of each mesh, used by the assignment refinement.
+ * @returns The atlases, sized by getAtlasDimensions.
+ */
+export function assembleAtlas(samples: SampleArrays[], layout: AtlasLayout, correspondence: MeshCorrespondence, randoms: RandomFunction[]): SampleArrays {
+  const { width, height } = getAtlasDimensions(layout);
+  const atlas = {
+    positions: new Float32Array(width * height * 4),
+    normals: new Float32Array(width * height * 4),
+    colors: new Float32Array(width * height * 4),
+  };
+
+  let previousPositions: Float32Array | null = null;
+  for (let i = 0; i < samples.length; i++) {
+    let meshData = samples[i];
+    // Reorder copies, the cached samples keep the sampled order
+    if (correspondence !== 'none') {
+      const order = getCurveOrder(meshData.positions);
+      if (correspondence === 'assignment' && previousPositions) {
+        refineAssignment(previousPositions, meshData.positions, order, randoms[i]);
+      }
+      meshData = {
+        positions: applyOrder(meshData.positions, order),
+        normals: applyOrder(meshData.normals, order),
+        colors: applyOrder(meshData.colors, order),
+      };
+    }
+    previousPositions = meshData.positions;
+
+    for (const attribute of ['positions', 'normals', 'colors'] as const) writeAtlasCell(atlas[attribute], layout, i, meshData[attribute]);
+  }
+  return atlas;
+}
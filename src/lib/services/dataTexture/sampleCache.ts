@@ -0,0 +1,269 @@
+import { SamplingJob, SamplingResult } from './samplingJobs';
+
+const DEFAULT_MEMORY_BUDGET = 128 * 1024 * 1024;
+const DEFAULT_INDEXED_DB_BUDGET = 512 * 1024 * 1024;
+const SAMPLES_STORE = 'samples';
+// Byte lengths and last use of the entries, so eviction does not read the samples
+const ENTRIES_STORE = 'entries';
+
+type CacheEntry = { byteLength: number; lastUsed: number };
+
+/**
+ * Stores sampled meshes, so they survive texture size changes and, depending on the storage, page reloads.
+ * Keys are built by getSamplingJobKey from the geometry contents, the texture size and the sampling options.
+ * Implementations evict the least recently used entries to stay within their byte budget. Failing calls count as cache misses.
+ */
+export interface SampleCacheStorage {
+  get(key: string): Promise<SamplingResult | undefined>;
+  set(key: string, samples: SamplingResult): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Keeps samples in memory for the lifetime of the page.
+ * The cached arrays are shared with the textures created from them, so the budget mostly covers samples whose textures were disposed.
+ */
+export class MemorySampleCache implements SampleCacheStorage {
+  private readonly maxBytes: number;
+  private readonly entries = new Map<string, SamplingResult>(); // least recently used first
+  private byteLength = 0;
+
+  /**
+   * @param maxBytes The byte budget. Defaults to 128 MiB.
+   */
+  constructor(maxBytes = DEFAULT_MEMORY_BUDGET) {
+    this.maxBytes = maxBytes;
+  }
+
+  async get(key: string) {
+    const samples = this.entries.get(key);
+    if (samples) {
+      this.entries.delete(key);
+      this.entries.set(key, samples);
+    }
+    return samples;
+  }
+
+  async set(key: string, samples: SamplingResult) {
+    await this.delete(key);
+    const byteLength = getByteLength(samples);
+    if (byteLength > this.maxBytes) return;
+    this.entries.set(key, samples);
+    this.byteLength += byteLength;
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.byteLength <= this.maxBytes) break;
+      this.entries.delete(oldestKey);
+      this.byteLength -= getByteLength(oldest);
+    }
+  }
+
+  async delete(key: string) {
+    const samples = this.entries.get(key);
+    if (!samples) return;
+    this.entries.delete(key);
+    this.byteLength -= getByteLength(samples);
+  }
+
+  async clear() {
+    this.entries.clear();
+    this.byteLength = 0;
+  }
+}
+
+/**
+ * Keeps samples in IndexedDB, so they survive page reloads.
+ * The entry list is read once and then tracked in memory, so pages sharing the database may briefly exceed the budget together.
+ */
+export class IndexedDBSampleCache implements SampleCacheStorage {
+  private readonly name: string;
+  private readonly maxBytes: number;
+  private database: Promise<IDBDatabase> | null = null;
+  private entries: Promise<Map<string, CacheEntry>> | null = null;
+
+  /**
+   * @param options.name The name of the database. Defaults to ionian-samples.
+   * @param options.maxBytes The byte budget. Defaults to 512 MiB.
+   */
+  constructor(options: { name?: string; maxBytes?: number } = {}) {
+    this.name = options.name ?? 'ionian-samples';
+    this.maxBytes = options.maxBytes ?? DEFAULT_INDEXED_DB_BUDGET;
+  }
+
+  async get(key: string) {
+    const [database, entries] = await Promise.all([this.open(), this.getEntries()]);
+    const entry = entries.get(key);
+    if (!entry) return undefined;
+
+    const transaction = database.transaction([SAMPLES_STORE, ENTRIES_STORE], 'readwrite');
+    const samples = requestToPromise<SamplingResult | undefined>(transaction.objectStore(SAMPLES_STORE).get(key));
+    entry.lastUsed = Date.now();
+    transaction.objectStore(ENTRIES_STORE).put(entry, key);
+    return (await Promise.all([samples, transactionToPromise(transaction)]))[0];
+  }
+
+  async set(key: string, samples: SamplingResult) {
+    const [database, entries] = await Promise.all([this.open(), this.getEntries()]);
+    const byteLength = getByteLength(samples);
+    if (byteLength > this.maxBytes) return;
+
+    const transaction = database.transaction([SAMPLES_STORE, ENTRIES_STORE], 'readwrite');
+    const entry = { byteLength, lastUsed: Date.now() };
+    transaction.objectStore(SAMPLES_STORE).put(samples, key);
+    transaction.objectStore(ENTRIES_STORE).put(entry, key);
+    entries.set(key, entry);
+
+    let total = 0;
+    entries.forEach(({ byteLength }) => (total += byteLength));
+    const evictionOrder = [...entries].filter(([other]) => other !== key).sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    for (const [oldestKey, oldest] of evictionOrder) {
+      if (total <= this.maxBytes) break;
+      transaction.objectStore(SAMPLES_STORE).delete(oldestKey);
+      transaction.objectStore(ENTRIES_STORE).delete(oldestKey);
+      entries.delete(oldestKey);
+      total -= oldest.byteLength;
+    }
+    await transactionToPromise(transaction);
+  }
+
+  async delete(key: string) {
+    const [database, entries] = await Promise.all([this.open(), this.getEntries()]);
+    const transaction = database.transaction([SAMPLES_STORE, ENTRIES_STORE], 'readwrite');
+    transaction.objectStore(SAMPLES_STORE).delete(key);
+    transaction.objectStore(ENTRIES_STORE).delete(key);
+    entries.delete(key);
+    await transactionToPromise(transaction);
+  }
+
+  async clear() {
+    const [database, entries] = await Promise.all([this.open(), this.getEntries()]);
+    const transaction = database.transaction([SAMPLES_STORE, ENTRIES_STORE], 'readwrite');
+    transaction.objectStore(SAMPLES_STORE).clear();
+    transaction.objectStore(ENTRIES_STORE).clear();
+    entries.clear();
+    await transactionToPromise(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available.');
+      const request = indexedDB.open(this.name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SAMPLES_STORE);
+        request.result.createObjectStore(ENTRIES_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.database;
+  }
+
+  private getEntries(): Promise<Map<string, CacheEntry>> {
+    this.entries ??= this.open().then(async (database) => {
+      const store = database.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE);
+      const [keys, values] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise<CacheEntry[]>(store.getAll())]);
+      return new Map(keys.map((key, i) => [String(key), values[i]]));
+    });
+    return this.entries;
+  }
+}
+
+/**
+ * Builds the cache key of a mesh or point cloud job from everything that affects its samples: the geometry, the weights,
+ * the color maps, the sampling options, the seed and the texture size. Equal contents give equal keys across page loads.
+ * @param job The job.
+ * @returns The key.
+ */
+export function getSamplingJobKey(job: Exclude<SamplingJob, { type: 'atlas' }>): string {
+  const hash = new ContentHash();
+  const { meshData } = job;
+  hash.addArray(meshData.position);
+  hash.addArray(meshData.normal);
+  hash.addArray(meshData.index);
+  hash.addArray(meshData.uv);
+  hash.addArray(meshData.color?.array);
+  hash.addNumbers(meshData.color?.itemSize ?? 0);
+  hash.addArray(meshData.weight);
+  hash.addNumbers(meshData.scale.x, meshData.scale.y, meshData.scale.z);
+
+  if (job.type === 'points') {
+    hash.addNumbers(job.baseColor.r, job.baseColor.g, job.baseColor.b);
+  } else {
+    const { luminanceMap, interiorRatio, thickness, colorMap, baseColor } = job.options;
+    hash.addArray(luminanceMap?.data);
+    hash.addNumbers(luminanceMap?.width ?? 0, luminanceMap?.height ?? 0, Number(luminanceMap?.flipY ?? false));
+    hash.addArray(colorMap?.data);
+    hash.addNumbers(colorMap?.width ?? 0, colorMap?.height ?? 0, Number(colorMap?.flipY ?? false));
+    hash.addNumbers(interiorRatio, thickness, baseColor.r, baseColor.g, baseColor.b);
+  }
+  return `${job.type}-${job.size}-${job.seed ?? 'random'}-${hash.digest()}`;
+}
+
+/**
+ * A 64-bit hash over the bytes of arrays: two 32-bit FNV-1a style lanes fed per 32-bit word, mixed on digest.
+ */
+class ContentHash {
+  private a = 0x811c9dc5;
+  private b = 0x01000193;
+
+  addArray(array: ArrayLike<number> | undefined) {
+    if (!array) {
+      this.addNumbers(-1);
+      return;
+    }
+    const bytes = ArrayBuffer.isView(array)
+      ? new Uint8Array(array.buffer, array.byteOffset, array.byteLength)
+      : new Uint8Array(Float64Array.from(array).buffer);
+    this.addNumbers(array.length, bytes.length);
+    const words = Math.floor(bytes.length / 4);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let i = 0; i < words; i++) this.addWord(view.getUint32(i * 4, true));
+    for (let i = words * 4; i < bytes.length; i++) this.addWord(bytes[i]);
+  }
+
+  addNumbers(...values: number[]) {
+    const view = new DataView(new ArrayBuffer(8));
+    for (const value of values) {
+      view.setFloat64(0, value, true);
+      this.addWord(view.getUint32(0, true));
+      this.addWord(view.getUint32(4, true));
+    }
+  }
+
+  digest(): string {
+    return [mixBits(this.a ^ this.b), mixBits(this.b)].map((lane) => lane.toString(16).padStart(8, '0')).join('');
+  }
+
+  private addWord(word: number) {
+    this.a = Math.imul(this.a ^ word, 0x01000193);
+    this.b = Math.imul(this.b ^ word, 0x5bd1e995) ^ (this.b >>> 15);
+  }
+}
+
+/**
+ * Spreads every input bit over the whole word (the MurmurHash3 finalizer).
+ */
+function mixBits(value: number) {
+  value = Math.imul(value ^ (value >>> 16), 0x85ebca6b);
+  value = Math.imul(value ^ (value >>> 13), 0xc2b2ae35);
+  return (value ^ (value >>> 16)) >>> 0;
+}
+
+function getByteLength(samples: SamplingResult) {
+  return samples.positions.byteLength + samples.normals.byteLength + samples.colors.byteLength;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
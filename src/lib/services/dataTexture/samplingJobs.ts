@@ -0,0 +1,49 @@
+import { MeshCorrespondence, MeshData, RandomFunction } from '@/lib/types';
+import { createRandom } from '@/lib/utils';
+import * as THREE from 'three';
+import { AtlasLayout } from './atlasLayout';
+import { assembleAtlas, SampleArrays, sampleMesh, SampleMeshOptions, samplePoints } from './meshSampling';
+
+/**
+ * Work for the sampling workers. Random functions cannot be sent to a worker, so jobs carry seeds instead; without a seed, Math.random is used.
+ * - mesh: samples a mesh, see sampleMesh.
+ * - points: samples a point cloud, see samplePoints.
+ * - atlas: lays out the samples of a mesh sequence, see assembleAtlas.
+ */
+export type SamplingJob =
+  | { type: 'mesh'; meshData: MeshData; size: number; seed?: number; options: SampleMeshOptions }
+  | { type: 'points'; meshData: MeshData; size: number; seed?: number; baseColor: THREE.Color }
+  | { type: 'atlas'; samples: SampleArrays[]; layout: AtlasLayout; correspondence: MeshCorrespondence; seeds: (number | undefined)[] };
+
+/**
+ * The samples of a job. interiorMisses is only set by mesh jobs, see sampleMesh.
+ */
+export type SamplingResult = SampleArrays & { interiorMisses?: number };
+
+/**
+ * Runs a sampling job on the current thread.
+ * @param job The job, possibly a structured clone.
+ * @returns The samples.
+ */
+export function runSamplingJob(job: SamplingJob): SamplingResult {
+  // Structured cloning drops the prototype of colors
+  switch (job.type) {
+    case 'mesh':
+      return sampleMesh(job.meshData, job.size, getRandomFunction(job.seed), { ...job.options, baseColor: new THREE.Color().copy(job.options.baseColor) });
+    case 'points':
+      return samplePoints(job.meshData, job.size, getRandomFunction(job.seed), new THREE.Color().copy(job.baseColor));
+    case 'atlas':
+      return assembleAtlas(job.samples, job.layout, job.correspondence, job.seeds.map(getRandomFunction));
+  }
+}
+
+/**
+ * Gets the buffers of a result, so a worker can transfer them instead of copying.
+ */
+export function getResultTransferables(result: SamplingResult): Transferable[] {
+  return [result.positions.buffer, result.normals.buffer, result.colors.buffer];
+}
+
+function getRandomFunction(seed: number | undefined): RandomFunction {
+  return seed === undefined ? Math.random : createRandom(seed);
+}
@@ -0,0 +1,191 @@
+import { MeshSamplingOptions, SamplingWeight, TextureWeightChannel } from '@/lib/types';
+import { clamp } from '@/lib/utils';
+import * as THREE from 'three';
+
+/**
+ * The luminance of a texture, read back on the CPU for weighted sampling.
+ */
+export type LuminanceMap = {
+  data: Float32Array;
+  width: number;
+  height: number;
+  flipY: boolean;
+  max: number;
+};
+
+/**
+ * The colors of a texture, read back on the CPU for baking particle colors. 4 floats per pixel.
+ */
+export type ColorMap = {
+  data: Float32Array;
+  width: number;
+  height: number;
+  flipY: boolean;
+};
+
+/**
+ * Builds the part of the sample cache key that depends on the sampling options.
+ * @param options The sampling options.
+ * @returns A key that is equal for options that yield the same samples.
+ */
+export function getSamplingKey(options: MeshSamplingOptions = {}): string {
+  const interiorRatio = getInteriorRatio(options);
+  const thickness = Math.max(0, options.thickness ?? 0);
+  let key = getWeightKey(options.weight);
+  if (interiorRatio > 0) key += `:interior-${interiorRatio}`;
+  if (thickness > 0) key += `:thickness-${thickness}`;
+  return key;
+}
+
+/**
+ * Gets the share of particles placed inside the mesh.
+ * @param options The sampling options.
+ * @returns 0 for surface sampling, 1 for volume sampling, and the clamped ratio for mixed sampling.
+ */
+export function getInteriorRatio(options: MeshSamplingOptions = {}): number {
+  if (options.mode === 'volume') return 1;
+  if (options.mode === 'mixed') return clamp(options.interiorRatio ?? 0.3, 0, 1);
+  return 0;
+}
+
+function getWeightKey(weight: SamplingWeight | undefined): string {
+  if (!weight) return 'uniform';
+  if (weight.type === 'attribute') return `attribute:${weight.name ?? 'weight'}`;
+  if (weight.type === 'texture') return `texture:${weight.texture.uuid}:${weight.channel ?? 'luminance'}`;
+  return weight.type;
+}
+
+/**
+ * Computes a weight per vertex for the vertex-color and attribute weights.
+ * @param geometry The geometry to weigh.
+ * @param weight The weight.
+ * @returns The weights, or null when the geometry lacks the attribute.
+ */
+export function getVertexWeights(geometry: THREE.BufferGeometry, weight: Exclude<SamplingWeight, { type: 'texture' }>): Float32Array | null {
+  const attribute = geometry.getAttribute(weight.type === 'vertex-color' ? 'color' : (weight.name ?? 'weight'));
+  if (!attribute) return null;
+
+  const weights = new Float32Array(attribute.count);
+  const color = new THREE.Color();
+  for (let i = 0; i < attribute.count; i++) {
+    weights[i] = weight.type === 'vertex-color' ? luminance(color.fromBufferAttribute(attribute as THREE.BufferAttribute, i)) : Math.max(0, attribute.getX(i));
+  }
+  return weights;
+}
+
+/**
+ * Reads the colors of a texture from its 8-bit or float image data, or by drawing its image to a canvas.
+ * @param texture The texture.
+ * @returns The color map, or null when the image cannot be read, e.g. compressed, half float, cross-origin or not yet loaded.
+ */
+export function readColorMap(texture: THREE.Texture): ColorMap | null {
+  if ((texture as THREE.CompressedTexture).isCompressedTexture) return null; // only the GPU can decode it
+  const image = texture.image as { data?: ArrayLike<number>; width: number; height: number } | CanvasImageSource | undefined;
+  if (!image) return null;
+
+  if ('data' in image && image.data) {
+    const { data: pixels, width, height } = image;
+    let scale: number;
+    if (pixels instanceof Uint8Array || pixels instanceof Uint8ClampedArray) scale = 1 / 255;
+    else if (pixels instanceof Float32Array) scale = 1;
+    else return null; // e.g. half floats, stored as Uint16Array
+    // DataTextures store the first row at v = 0
+    return createColorMap(pixels, width, height, scale, false);
+  }
+
+  if (!isCanvasImageSource(image) || typeof document === 'undefined') return null;
+  const width = 'videoWidth' in image ? image.videoWidth : image.width;
+  const height = 'videoHeight' in image ? image.videoHeight : image.height;
+  if (!(width > 0 && height > 0)) return null;
+  let pixels: Uint8ClampedArray;
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.drawImage(image, 0, 0);
+    pixels = context.getImageData(0, 0, width, height).data;
+  } catch {
+    return null; // e.g. a cross-origin image taints the canvas
+  }
+  // Images store the first row at v = 1 unless flipY is off
+  return createColorMap(pixels, width, height, 1 / 255, texture.flipY);
+}
+
+/**
+ * Looks up the color at a UV, repeating outside of 0..1.
+ * @param map The color map.
+ * @param u The u coordinate.
+ * @param v The v coordinate.
+ * @param target The color to write to.
+ * @returns The target color.
+ */
+export function sampleColorMap(map: ColorMap, u: number, v: number, target: THREE.Color): THREE.Color {
+  return target.fromArray(map.data, getPixelIndex(map, u, v) * 4);
+}
+
+/**
+ * Reads the luminance or the alpha of a texture, see readColorMap.
+ * @param texture The texture.
+ * @param channel The channel to read.
+ * @returns The luminance map, or null when the image cannot be read.
+ */
+export function readLuminanceMap(texture: THREE.Texture, channel: TextureWeightChannel = 'luminance'): LuminanceMap | null {
+  const colorMap = readColorMap(texture);
+  if (!colorMap) return null;
+
+  const { width, height, flipY } = colorMap;
+  const data = new Float32Array(width * height);
+  const color = new THREE.Color();
+  let max = 0;
+  for (let i = 0; i < data.length; i++) {
+    data[i] = channel === 'alpha' ? colorMap.data[i * 4 + 3] : luminance(color.fromArray(colorMap.data, i * 4));
+    max = Math.max(max, data[i]);
+  }
+  return { data, width, height, flipY, max };
+}
+
+/**
+ * Looks up the luminance at a UV, repeating outside of 0..1.
+ */
+export function sampleLuminanceMap(map: LuminanceMap, u: number, v: number): number {
+  return map.data[getPixelIndex(map, u, v)];
+}
+
+function getPixelIndex(map: { width: number; height: number; flipY: boolean }, u: number, v: number) {
+  const x = Math.min(Math.floor((u - Math.floor(u)) * map.width), map.width - 1);
+  let y = Math.min(Math.floor((v - Math.floor(v)) * map.height), map.height - 1);
+  if (map.flipY) y = map.height - 1 - y;
+  return y * map.width + x;
+}
+
+function luminance(color: THREE.Color) {
+  return 0.2126 * color.r + 0.7152 * color.g + 0.0722 * color.b;
+}
+
+/**
+ * Converts pixels with 1 to 4 channels to a color map. Missing channels repeat the last color channel, and alpha defaults to 1.
+ * @returns The color map, or null when the pixel count does not match the size.
+ */
+function createColorMap(pixels: ArrayLike<number>, width: number, height: number, scale: number, flipY: boolean): ColorMap | null {
+  const channels = pixels.length / (width * height);
+  if (!Number.isInteger(channels) || channels < 1 || channels > 4) return null;
+  const data = new Float32Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const offset = i * channels;
+    data[i * 4] = pixels[offset] * scale;
+    data[i * 4 + 1] = pixels[offset + Math.min(1, channels - 1)] * scale;
+    data[i * 4 + 2] = pixels[offset + Math.min(2, channels - 1)] * scale;
+    data[i * 4 + 3] = channels >= 4 ? pixels[offset + 3] * scale : 1;
+  }
+  return { data, width, height, flipY };
+}
+
+/**
+ * Tests whether an image can be drawn to a canvas. Other images, such as the mipmaps of compressed textures, only have a size.
+ */
+function isCanvasImageSource(image: object): image is HTMLImageElement | HTMLCanvasElement | HTMLVideoElement | ImageBitmap | OffscreenCanvas {
+  const types = [globalThis.HTMLImageElement, globalThis.HTMLCanvasElement, globalThis.HTMLVideoElement, globalThis.ImageBitmap, globalThis.OffscreenCanvas];
+  return types.some((type) => type !== undefined && image instanceof type);
+}
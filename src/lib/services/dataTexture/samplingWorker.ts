@@ -0,0 +1,13 @@
+import { getResultTransferables, runSamplingJob, SamplingJob } from './samplingJobs';
+
+/**
+ * Runs the sampling jobs of a SamplingWorkerPool, one message per job.
+ */
+self.onmessage = (event: MessageEvent<SamplingJob>) => {
+  try {
+    const result = runSamplingJob(event.data);
+    self.postMessage({ result }, { transfer: getResultTransferables(result) });
+  } catch (error) {
+    self.postMessage({ error: String(error) });
+  }
+};
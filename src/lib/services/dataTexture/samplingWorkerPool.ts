@@ -0,0 +1,126 @@
+import { runSamplingJob, SamplingJob, SamplingResult } from './samplingJobs';
+
+type PendingJob = {
+  job: SamplingJob;
+  resolve: (result: SamplingResult) => void;
+  reject: (error: Error) => void;
+};
+
+type WorkerMessage = { result: SamplingResult; error?: undefined } | { result?: undefined; error: string };
+
+/**
+ * Runs sampling jobs on a pool of web workers, one job per worker at a time. Workers are started on demand.
+ * Jobs run on the main thread where workers are unavailable or fail to start, e.g. in Node, under a strict content security policy,
+ * or in the script tag build, whose worker has no bundler to resolve its three import.
+ */
+export class SamplingWorkerPool {
+  private readonly size: number;
+  private readonly idleWorkers: Worker[] = [];
+  private readonly busyWorkers = new Map<Worker, PendingJob>();
+  private readonly queue: PendingJob[] = [];
+  private useWorkers: boolean;
+
+  /**
+   * @param size The maximum number of workers. 0 runs every job on the main thread. Defaults to one less than the number of cores, at most 4.
+   */
+  constructor(size: number = getDefaultWorkerCount()) {
+    this.size = Math.max(0, Math.floor(size));
+    this.useWorkers = this.size > 0 && typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Queues a job.
+   * @param job The job. Its arrays are copied to the worker, so the caller keeps them.
+   * @returns The result, whose arrays are transferred from the worker.
+   */
+  run(job: SamplingJob): Promise<SamplingResult> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ job, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stops the workers and rejects the jobs that have not finished.
+   */
+  dispose() {
+    const pending = [...this.busyWorkers.values(), ...this.queue];
+    this.stopWorkers();
+    this.queue.length = 0;
+    pending.forEach((job) => job.reject(new Error('The sampling worker pool was disposed.')));
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      if (!this.useWorkers) {
+        this.runOnMainThread(this.queue.shift()!);
+        continue;
+      }
+      const worker = this.idleWorkers.pop() ?? this.startWorker();
+      if (!worker) {
+        if (this.useWorkers) return; // every worker is busy
+        continue;
+      }
+      const pending = this.queue.shift()!;
+      this.busyWorkers.set(worker, pending);
+      worker.postMessage(pending.job);
+    }
+  }
+
+  private startWorker(): Worker | null {
+    if (this.busyWorkers.size + this.idleWorkers.length >= this.size) return null;
+    let worker: Worker;
+    try {
+      // A module worker in its own file, so bundlers of the app resolve three for it instead of the library bundling a copy
+      worker = new Worker(new URL('./samplingWorker.ts', import.meta.url), { type: 'module' });
+    } catch {
+      this.fallBackToMainThread();
+      return null;
+    }
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const pending = this.busyWorkers.get(worker);
+      if (!pending) return;
+      this.busyWorkers.delete(worker);
+      this.idleWorkers.push(worker);
+      if (event.data.error !== undefined) pending.reject(new Error(event.data.error));
+      else pending.resolve(event.data.result);
+      this.dispatch();
+    };
+    worker.onerror = (event) => {
+      // Errors of a job are posted as messages, so this is a worker that could not load or crashed
+      event.preventDefault();
+      this.fallBackToMainThread();
+      this.dispatch();
+    };
+    return worker;
+  }
+
+  /**
+   * Stops the workers and requeues their jobs, which are sent as copies and can simply run again.
+   */
+  private fallBackToMainThread() {
+    this.queue.unshift(...this.busyWorkers.values());
+    this.stopWorkers();
+  }
+
+  private stopWorkers() {
+    this.useWorkers = false;
+    this.busyWorkers.forEach((_, worker) => worker.terminate());
+    this.busyWorkers.clear();
+    this.idleWorkers.forEach((worker) => worker.terminate());
+    this.idleWorkers.length = 0;
+  }
+
+  private runOnMainThread(pending: PendingJob) {
+    try {
+      pending.resolve(runSamplingJob(pending.job));
+    } catch (error) {
+      pending.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
+
+function getDefaultWorkerCount(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+  return cores ? Math.min(4, Math.max(1, cores - 1)) : 2;
+}
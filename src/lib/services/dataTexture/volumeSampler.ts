@@ -0,0 +1,100 @@
+import { RandomFunction } from '@/lib/types';
+import * as THREE from 'three';
+
+// Rejected points before the sampler gives up, e.g. for open or flat meshes.
+const MAX_VOLUME_ATTEMPTS = 256;
+
+/**
+ * Samples random points inside a closed mesh, uniformly by volume.
+ * Points are drawn in the bounding box and kept when a ray along +z crosses the surface an odd number of times.
+ * The triangles are bucketed by their xy bounds, so each inside test only visits the triangles above the point's column.
+ */
+export class VolumeSampler {
+  private readonly vertices: Float32Array;
+  private readonly bounds = new THREE.Box3();
+  private readonly gridSize: number;
+  private readonly cells: number[][];
+  private readonly random: RandomFunction;
+
+  /**
+   * @param position The vertex positions, 3 floats each.
+   * @param index The triangle indices, if indexed.
+   * @param random The random function.
+   */
+  constructor(position: ArrayLike<number>, index: ArrayLike<number> | undefined, random: RandomFunction) {
+    this.random = random;
+    const triangleCount = Math.floor((index ? index.length : position.length / 3) / 3);
+    this.vertices = new Float32Array(triangleCount * 9);
+    for (let corner = 0; corner < triangleCount * 3; corner++) {
+      const vertex = index ? index[corner] : corner;
+      this.vertices[corner * 3] = position[vertex * 3];
+      this.vertices[corner * 3 + 1] = position[vertex * 3 + 1];
+      this.vertices[corner * 3 + 2] = position[vertex * 3 + 2];
+    }
+    this.bounds.setFromArray(this.vertices);
+
+    this.gridSize = THREE.MathUtils.clamp(Math.ceil(Math.sqrt(triangleCount)), 1, 128);
+    this.cells = Array.from({ length: this.gridSize * this.gridSize }, () => []);
+    for (let triangle = 0; triangle < triangleCount; triangle++) {
+      const [minX, maxX] = this.getTriangleCellRange(triangle, 'x');
+      const [minY, maxY] = this.getTriangleCellRange(triangle, 'y');
+      for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) this.cells[y * this.gridSize + x].push(triangle);
+      }
+    }
+  }
+
+  /**
+   * Samples a point inside the mesh.
+   * @param target The vector to write the point to.
+   * @returns Whether a point was found. Open or flat meshes may have no inside.
+   */
+  sample(target: THREE.Vector3): boolean {
+    const { min, max } = this.bounds;
+    for (let attempt = 0; attempt < MAX_VOLUME_ATTEMPTS; attempt++) {
+      target.set(
+        THREE.MathUtils.lerp(min.x, max.x, this.random()),
+        THREE.MathUtils.lerp(min.y, max.y, this.random()),
+        THREE.MathUtils.lerp(min.z, max.z, this.random()),
+      );
+      if (this.isInside(target)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Tests whether a point is inside the mesh by ray parity along +z.
+   */
+  isInside(point: THREE.Vector3): boolean {
+    if (this.bounds.isEmpty()) return false;
+    const [x] = this.getCellRange(point.x, point.x, 'x');
+    const [y] = this.getCellRange(point.y, point.y, 'y');
+    const v = this.vertices;
+    let crossings = 0;
+    for (const triangle of this.cells[y * this.gridSize + x]) {
+      const o = triangle * 9;
+      // Barycentric coordinates of the point in the xy projection of the triangle
+      const denominator = (v[o + 4] - v[o + 7]) * (v[o] - v[o + 6]) + (v[o + 6] - v[o + 3]) * (v[o + 1] - v[o + 7]);
+      if (denominator === 0) continue; // parallel to the ray
+      const a = ((v[o + 4] - v[o + 7]) * (point.x - v[o + 6]) + (v[o + 6] - v[o + 3]) * (point.y - v[o + 7])) / denominator;
+      const b = ((v[o + 7] - v[o + 1]) * (point.x - v[o + 6]) + (v[o] - v[o + 6]) * (point.y - v[o + 7])) / denominator;
+      const c = 1 - a - b;
+      if (a < 0 || b < 0 || c < 0) continue;
+      if (a * v[o + 2] + b * v[o + 5] + c * v[o + 8] > point.z) crossings++;
+    }
+    return crossings % 2 === 1;
+  }
+
+  private getTriangleCellRange(triangle: number, axis: 'x' | 'y'): [number, number] {
+    const offset = triangle * 9 + (axis === 'x' ? 0 : 1);
+    const values = [this.vertices[offset], this.vertices[offset + 3], this.vertices[offset + 6]];
+    return this.getCellRange(Math.min(...values), Math.max(...values), axis);
+  }
+
+  private getCellRange(from: number, to: number, axis: 'x' | 'y'): [number, number] {
+    const min = this.bounds.min[axis];
+    const extent = Math.max(this.bounds.max[axis] - min, 1e-9);
+    const toCell = (value: number) => THREE.MathUtils.clamp(Math.floor(((value - min) / extent) * this.gridSize), 0, this.gridSize - 1);
+    return [toCell(from), toCell(to)];
+  }
+}
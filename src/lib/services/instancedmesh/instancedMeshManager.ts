@@ -1,3 +1,5 @@
+import { applyShaderHookUniforms, injectShaderHooks } from '@/lib/shaderHooks';
+import { LifecycleOptions, ParticleAppearance, ShaderHooks } from '@/lib/types';
 import * as THREE from 'three';
 import { Vector3Like } from 'three';
 import instanceFragmentShader from './shaders/instanceFragmentShader';
@@ -10,6 +12,17 @@ type MaterialUniforms = {
   uVelocity: { value: THREE.DataTexture | null };
   uOriginTexture: { value: THREE.Texture | null };
   uDestinationTexture: { value: THREE.Texture | null };
+  uLifecycleEnabled: { value: number };
+  uAgeShrink: { value: number };
+  uAgeFade: { value: number };
+  uTextureSize: { value: number };
+  uNormalAtlas: { value: THREE.Texture | null };
+  uColorAtlas: { value: THREE.Texture | null };
+  uNumMeshes: { value: number };
+  uAtlasColumns: { value: number };
+  uSequenceProgress: { value: number };
+  uMeshColors: { value: number };
+  uSurfaceOrientation: { value: number };
 };
 
 /**
@@ -27,6 +40,7 @@ export class InstancedMeshManager {
   private uvRefsCache: Map<number, THREE.InstancedBufferAttribute>;
 
   private previousScale: Vector3Like;
+  private shaderHooks?: ShaderHooks;
 
   /**
    * Creates a new InstancedMeshManager instance.
@@ -46,12 +60,23 @@ export class InstancedMeshManager {
       uVelocity: { value: null },
       uOriginTexture: { value: null },
       uDestinationTexture: { value: null },
+      uLifecycleEnabled: { value: 0 },
+      uAgeShrink: { value: 0 },
+      uAgeFade: { value: 0 },
+      uTextureSize: { value: initialSize },
+      uNormalAtlas: { value: null },
+      uColorAtlas: { value: null },
+      uNumMeshes: { value: 1 },
+      uAtlasColumns: { value: 1 },
+      uSequenceProgress: { value: 0 },
+      uMeshColors: { value: 0 },
+      uSurfaceOrientation: { value: 0 },
     };
 
     this.shaderMaterial = new THREE.ShaderMaterial({
       uniforms: this.uniforms,
-      vertexShader: instanceVertexShader,
-      fragmentShader: instanceFragmentShader,
+      vertexShader: injectShaderHooks(instanceVertexShader),
+      fragmentShader: injectShaderHooks(instanceFragmentShader),
     });
 
     this.fallbackGeometry = new THREE.BoxGeometry(0.001, 0.001, 0.001);
@@ -84,12 +109,68 @@ export class InstancedMeshManager {
     this.uniforms.uProgress.value = progress;
   }
 
+  /**
+   * Sets how particles are rendered over their lifetime.
+   * @param options The lifecycle options.
+   */
+  setLifecycle(options: Pick<LifecycleOptions, 'enabled' | 'fade' | 'shrink'>) {
+    this.uniforms.uLifecycleEnabled.value = options.enabled ? 1 : 0;
+    this.uniforms.uAgeShrink.value = options.shrink ? 1 : 0;
+    this.uniforms.uAgeFade.value = options.fade ? 1 : 0;
+    this.shaderMaterial.transparent = options.enabled && options.fade;
+  }
+
+  /**
+   * Sets the baked surface of the mesh sequence.
+   * @param normals The normal atlas, laid out like the position atlas of the simulation.
+   * @param colors The color atlas, laid out like the position atlas of the simulation.
+   * @param numMeshes The number of meshes in the atlases.
+   * @param atlasColumns The number of meshes per atlas row. Defaults to all of them.
+   */
+  setSurfaceAtlas(normals: THREE.Texture, colors: THREE.Texture, numMeshes: number, atlasColumns = numMeshes) {
+    this.uniforms.uNormalAtlas.value = normals;
+    this.uniforms.uColorAtlas.value = colors;
+    this.uniforms.uNumMeshes.value = Math.max(1, numMeshes);
+    this.uniforms.uAtlasColumns.value = Math.max(1, atlasColumns);
+  }
+
+  /**
+   * Sets the progress through the mesh sequence, which blends the baked surfaces of neighboring meshes.
+   * @param progress A value between 0.0 (first mesh) and 1.0 (last mesh).
+   */
+  setSequenceProgress(progress: number) {
+    this.uniforms.uSequenceProgress.value = progress;
+  }
+
+  /**
+   * Sets how particles take on the baked surface of the mesh sequence.
+   * @param appearance The particle appearance.
+   */
+  setAppearance(appearance: ParticleAppearance) {
+    this.uniforms.uMeshColors.value = appearance.meshColors ? 1 : 0;
+    this.uniforms.uSurfaceOrientation.value = appearance.orientation === 'surface' ? 1 : 0;
+  }
+
   setGeometrySize(size: THREE.Vector3Like) {
     this.mesh.geometry.scale(1 / this.previousScale.x, 1 / this.previousScale.y, 1 / this.previousScale.z);
     this.mesh.geometry.scale(size.x, size.y, size.z);
     this.previousScale = size;
   }
 
+  /**
+   * Sets the custom GLSL hooks and recompiles the instance material.
+   * @param hooks The hooks, or undefined to remove all hooks.
+   * @returns The names of the hook uniforms that clash with built-in uniforms and are ignored.
+   */
+  setShaderHooks(hooks?: ShaderHooks): string[] {
+    this.shaderMaterial.vertexShader = injectShaderHooks(instanceVertexShader, hooks);
+    this.shaderMaterial.fragmentShader = injectShaderHooks(instanceFragmentShader, hooks);
+    const clashes = applyShaderHookUniforms(this.shaderMaterial.uniforms, this.shaderHooks, hooks);
+    this.shaderMaterial.needsUpdate = true;
+    this.shaderHooks = hooks;
+    return clashes;
+  }
+
   /**
    * Use the matcap material for the instanced mesh.
    */
@@ -133,6 +214,7 @@ export class InstancedMeshManager {
     if (this.size === size) return { current: this.mesh, previous: this.mesh };
 
     this.size = size;
+    this.uniforms.uTextureSize.value = size;
 
     // create new instances since it is greater than the last known value
     const prev = this.mesh;
@@ -5,8 +5,15 @@ uniform sampler2D uOriginTexture;
 uniform sampler2D uDestinationTexture;
 
 uniform float uProgress;
+uniform float uAgeFade;
+uniform float uMeshColors;
+varying vec3 vMeshColor;
+varying float vNormalizedAge;
 varying vec3 vNormal;
 varying vec3 vViewPosition;
+
+// @hook fragment_header
+
 void main() {
     vec3 viewDir = normalize( vViewPosition );
     vec3 x = normalize( vec3( viewDir.z, 0.0, - viewDir.x ) );
@@ -17,6 +24,15 @@ void main() {
     vec4 textureB = texture2D( uDestinationTexture, uv );
 
     vec4 finalColor = mix(textureA, textureB, uProgress);
+    if (uMeshColors > 0.5) {
+        finalColor.rgb *= vMeshColor;
+    }
+    if (uAgeFade > 0.5) {
+        finalColor.a *= 1.0 - vNormalizedAge;
+    }
+
+    // @hook fragment_color
+
     gl_FragColor = finalColor;
 }
 `;
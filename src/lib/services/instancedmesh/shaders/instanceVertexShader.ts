@@ -3,10 +3,25 @@ varying vec2 vUv;
 uniform sampler2D uTexture;
 uniform sampler2D uVelocity;
 uniform float uTime;
+uniform float uLifecycleEnabled;
+uniform float uAgeShrink;
+varying float vNormalizedAge;
 varying vec3 vNormal;
 attribute vec2 uvRef;
 varying vec3 vViewPosition;
 
+// Baked surface of the mesh sequence, see MeshSampleTextures
+uniform float uTextureSize;
+uniform sampler2D uNormalAtlas;
+uniform sampler2D uColorAtlas;
+uniform int uNumMeshes;
+uniform int uAtlasColumns;
+uniform float uSequenceProgress;
+uniform float uSurfaceOrientation;
+varying vec3 vMeshColor;
+
+// @hook vertex_header
+
 vec3 rotate3D(vec3 v, vec3 vel) {
     vec3 pos = v;
     vec3 up = vec3(0, 1, 0);
@@ -16,6 +31,33 @@ vec3 rotate3D(vec3 v, vec3 vel) {
     return pos;
 }
 
+// rotate3D, but also defined for directions along the y axis
+vec3 alignToDirection(vec3 v, vec3 direction) {
+    vec3 d = normalize(direction);
+    if (abs(d.x) + abs(d.z) < 0.0001) return d.y > 0.0 ? v : vec3(v.x, -v.y, -v.z);
+    return rotate3D(v, d);
+}
+
+// Finds the cell of a mesh in the atlases. The cells fill rows of uAtlasColumns from the bottom left, see AtlasLayout.
+vec2 getSurfaceAtlasUv(vec2 texel, float meshIndex) {
+    float columns = float(uAtlasColumns);
+    float row = floor((meshIndex + 0.5) / columns); // robust to inexact division
+    float rows = ceil(float(uNumMeshes) / columns);
+    return vec2((texel.x + meshIndex - row * columns) / columns, (texel.y + row) / rows);
+}
+
+// Finds the particle in the atlases of the two meshes around the sequence progress.
+void getSurfaceAtlasUvs(out vec2 uvA, out vec2 uvB, out float localProgress) {
+    vec2 texel = (floor(uvRef * (uTextureSize - 1.0) + 0.5) + 0.5) / uTextureSize; // uvRef spans 0..1 across the texel centers
+    float lastIndex = float(uNumMeshes - 1);
+    float scaledProgress = uSequenceProgress * lastIndex;
+    float indexA = min(floor(scaledProgress), lastIndex);
+    float indexB = min(indexA + 1.0, lastIndex);
+    localProgress = scaledProgress - indexA;
+    uvA = getSurfaceAtlasUv(texel, indexA);
+    uvB = getSurfaceAtlasUv(texel, indexB);
+}
+
 void main() {
     vUv = uv;
     vNormal = normal;
@@ -24,13 +66,38 @@ void main() {
     vec4 velocity = texture2D(uVelocity, uvRef);
     vec3 pos = color.xyz;// apply the texture to the vertex distribution.
 
+    vec2 atlasUvA, atlasUvB;
+    float atlasProgress;
+    getSurfaceAtlasUvs(atlasUvA, atlasUvB, atlasProgress);
+    vec3 surfaceNormal = mix(texture2D(uNormalAtlas, atlasUvA).xyz, texture2D(uNormalAtlas, atlasUvB).xyz, atlasProgress);
+    vMeshColor = mix(texture2D(uColorAtlas, atlasUvA).rgb, texture2D(uColorAtlas, atlasUvB).rgb, atlasProgress);
+
     vec3 localPosition = position.xyz;
     if (length (velocity.xyz) < 0.0001) {
         velocity.xyz = vec3(0.0, 0.0001, 0.0001);
     }
-    localPosition.y *= max(1.0, length(velocity.xyz) * 1000.0);
-    localPosition = rotate3D(localPosition, velocity.xyz);
-    vNormal = rotate3D(normal, velocity.xyz);
+    if (uSurfaceOrientation > 0.5 && length(surfaceNormal) > 0.0001) {
+        localPosition = alignToDirection(localPosition, surfaceNormal);
+        vNormal = alignToDirection(normal, surfaceNormal);
+    } else {
+        localPosition.y *= max(1.0, length(velocity.xyz) * 1000.0);
+        localPosition = rotate3D(localPosition, velocity.xyz);
+        vNormal = rotate3D(normal, velocity.xyz);
+    }
+
+    // age is stored in position.w and lifetime in velocity.w by the simulation
+    float normalizedAge = 0.0;
+    if (uLifecycleEnabled > 0.5 && velocity.w > 0.0) {
+        normalizedAge = clamp(color.w / velocity.w, 0.0, 1.0);
+    }
+    if (normalizedAge >= 1.0) {
+        localPosition = vec3(0.0); // dead, waiting to respawn
+    } else if (uAgeShrink > 0.5) {
+        localPosition *= 1.0 - normalizedAge;
+    }
+    vNormalizedAge = normalizedAge;
+
+    // @hook vertex_transform
 
     mat4 instanceMat = instanceMatrix;
     instanceMat[3].xyz = pos.xyz;
@@ -1,6 +1,10 @@
 import { DefaultEventEmitter, EngineEventEmitter, Events } from '@/lib/events';
+import { MAX_INTERACTION_POINTS } from '@/lib/services/simulation/simulationBackend';
+import { PointerId } from '@/lib/types';
 import * as THREE from 'three';
 
+const PRIMARY_POINTER_ID = 'primary';
+
 /**
  * Service for calculating intersections between a ray and a morphed geometry.
  */
@@ -8,7 +12,7 @@ export class IntersectionService {
   private active: boolean = true;
 
   private raycaster = new THREE.Raycaster();
-  private mousePosition = new THREE.Vector2();
+  private pointers = new Map<PointerId, THREE.Vector2>();
 
   private camera?: THREE.Camera;
 
@@ -22,7 +26,11 @@ export class IntersectionService {
   private eventEmitter: EngineEventEmitter<Events>;
 
   private blendedGeometry?: THREE.BufferGeometry; // Keep for the final blended result
-  private intersection?: THREE.Vector4;
+  private intersections: THREE.Vector4[] = [];
+  private pointerVelocities: THREE.Vector3[] = []; // Movement of each intersection, in local units per second
+  private viewDirection = new THREE.Vector3(0, 0, -1); // Camera direction in the local space of the instanced mesh
+  private previousHits = new Map<PointerId, THREE.Vector3>();
+  private previousTime?: number;
 
   /**
    * Creates a new IntersectionService instance.
@@ -38,9 +46,9 @@ export class IntersectionService {
   setActive(active: boolean) {
     this.active = active;
     if (!active) {
-      // Clear intersection when deactivated
-      this.intersection = undefined;
-      this.eventEmitter.emit('interactionPositionUpdated', { position: { x: 0, y: 0, z: 0, w: 0 } });
+      // Clear intersections when deactivated
+      this.previousHits.clear();
+      this.updateIntersections([], []);
     }
   }
 
@@ -58,10 +66,10 @@ export class IntersectionService {
 
   /**
    * Sets the sequence of meshes used for intersection calculations.
-   * Clones the geometries to avoid modifying originals.
-   * @param meshes An array of THREE.Mesh objects in sequence.
+   * Clones the geometries to avoid modifying originals. Point clouds have no surface to hit, so they take the place of an empty geometry.
+   * @param meshes An array of THREE.Mesh or THREE.Points objects in sequence.
    */
-  setMeshSequence(meshes: THREE.Mesh[]) {
+  setMeshSequence(meshes: (THREE.Mesh | THREE.Points)[]) {
     // Dispose old geometries
     this.meshSequenceGeometries.forEach((geom) => geom.dispose());
     this.meshSequenceGeometries = [];
@@ -73,7 +81,10 @@ export class IntersectionService {
     }
 
     meshes.forEach((mesh) => {
-      if (mesh && mesh.geometry) {
+      if (mesh instanceof THREE.Points) {
+        this.meshSequenceGeometries.push(new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute([], 3)));
+        this.meshSequenceUUIDs.push(mesh.uuid);
+      } else if (mesh && mesh.geometry) {
         const clonedGeometry = mesh.geometry.clone();
         // IMPORTANT: Apply the mesh's world matrix to the cloned geometry
         // so the intersection calculation uses world coordinates.
@@ -101,26 +112,43 @@ export class IntersectionService {
   }
 
   /**
-   * Set the mouse position.
-   * @param mousePosition
+   * Set the position of a single pointer, replacing all other pointers.
+   * @param mousePosition The pointer position in normalized device coordinates.
    */
   setPointerPosition(mousePosition?: THREE.Vector2Like) {
-    if (mousePosition) this.mousePosition.copy(mousePosition);
+    if (mousePosition) this.setPointerPositions(new Map([[PRIMARY_POINTER_ID, mousePosition]]));
   }
 
   /**
-   * Calculate the intersection.
-   * @returns The intersection point or undefined if no intersection was found.
+   * Set the positions of all active pointers. Pointers beyond MAX_INTERACTION_POINTS are ignored.
+   * @param pointers The pointer positions in normalized device coordinates, keyed by pointer ID.
    */
-  calculate(instancedMesh: THREE.Mesh): THREE.Vector4 | undefined {
+  setPointerPositions(pointers: Map<PointerId, THREE.Vector2Like>) {
+    this.pointers.clear();
+    for (const [id, position] of pointers) {
+      if (this.pointers.size >= MAX_INTERACTION_POINTS) break;
+      this.pointers.set(id, new THREE.Vector2().copy(position));
+    }
+  }
+
+  /**
+   * Calculate the intersections of all pointers.
+   * @param instancedMesh The instanced mesh whose local space the intersections are reported in.
+   * @param time The simulated time in seconds, used to derive the pointer velocities.
+   * @returns The intersection points in the local space of the instanced mesh, one for each pointer that hits the geometry.
+   */
+  calculate(instancedMesh: THREE.Mesh, time: number = 0): THREE.Vector4[] {
+    const deltaTime = this.previousTime === undefined ? 0 : time - this.previousTime;
+    this.previousTime = time;
+
     if (!this.active || !this.camera || this.meshSequenceGeometries.length === 0) {
       // If inactive or no camera/geometry, ensure no intersection is reported
-      if (this.intersection) {
+      this.previousHits.clear();
+      if (this.intersections.length > 0) {
         // Only emit update if state changes
-        this.intersection = undefined;
-        this.eventEmitter.emit('interactionPositionUpdated', { position: { x: 0, y: 0, z: 0, w: 0 } });
+        this.updateIntersections([], []);
       }
-      return undefined;
+      return this.intersections;
     }
 
     if (this.geometryNeedsUpdate) {
@@ -149,35 +177,41 @@ export class IntersectionService {
     // This is crucial if the instanced mesh itself moves or rotates
     this.intersectionMesh.matrixWorld.copy(instancedMesh.matrixWorld);
 
-    let newIntersection: THREE.Vector4 | undefined = undefined;
+    const newIntersections: THREE.Vector4[] = [];
+    const newVelocities: THREE.Vector3[] = [];
+    const hits = new Map<PointerId, THREE.Vector3>();
     if (this.blendedGeometry && this.blendedGeometry.attributes.position) {
       // Check if geometry is valid
-      newIntersection = this.getFirstIntersection(this.camera, this.intersectionMesh); // Use intersectionMesh now
+      this.pointers.forEach((pointer, id) => {
+        const worldPoint = this.getFirstIntersection(this.camera!, this.intersectionMesh, pointer);
+        if (!worldPoint) return;
+        // Convert world intersection point to the instanced mesh's local space
+        const localPoint = instancedMesh.worldToLocal(worldPoint);
+        const previousPoint = this.previousHits.get(id);
+        const velocity = new THREE.Vector3();
+        if (previousPoint && deltaTime > 0) velocity.subVectors(localPoint, previousPoint).divideScalar(deltaTime);
+        hits.set(id, localPoint);
+        newIntersections.push(new THREE.Vector4(localPoint.x, localPoint.y, localPoint.z, 1)); // w=1 indicates intersection found
+        newVelocities.push(velocity);
+      });
     }
+    this.previousHits = hits;
+
+    const viewDirection = this.camera.getWorldDirection(new THREE.Vector3()).transformDirection(instancedMesh.matrixWorld.clone().invert());
 
     // Only emit update if intersection state changes
     const hasChanged =
-      this.intersection?.x !== newIntersection?.x ||
-      this.intersection?.y !== newIntersection?.y ||
-      this.intersection?.z !== newIntersection?.z ||
-      (this.intersection && !newIntersection) ||
-      (!this.intersection && newIntersection);
+      newIntersections.length !== this.intersections.length ||
+      newIntersections.some((intersection, index) => !intersection.equals(this.intersections[index])) ||
+      newVelocities.some((velocity, index) => !velocity.equals(this.pointerVelocities[index])) ||
+      !viewDirection.equals(this.viewDirection);
 
     if (hasChanged) {
-      this.intersection = newIntersection;
-      if (this.intersection) {
-        // Convert world intersection point to the instanced mesh's local space
-        const worldPoint = new THREE.Vector3(this.intersection.x, this.intersection.y, this.intersection.z);
-        const localPoint = instancedMesh.worldToLocal(worldPoint.clone()); // Use clone
-        this.intersection.set(localPoint.x, localPoint.y, localPoint.z, 1); // w=1 indicates intersection found
-
-        this.eventEmitter.emit('interactionPositionUpdated', { position: this.intersection });
-      } else {
-        this.eventEmitter.emit('interactionPositionUpdated', { position: { x: 0, y: 0, z: 0, w: 0 } }); // w=0 indicates no intersection
-      }
+      this.viewDirection.copy(viewDirection);
+      this.updateIntersections(newIntersections, newVelocities);
     }
 
-    return this.intersection; // Return the local space intersection vector
+    return this.intersections; // Return the local space intersection vectors
   }
 
   /**
@@ -206,16 +240,23 @@ export class IntersectionService {
     this.intersectionMesh.updateMatrixWorld(true);
   }
 
-  private getFirstIntersection(camera: THREE.Camera, targetMesh: THREE.Mesh): THREE.Vector4 | undefined {
-    this.raycaster.setFromCamera(this.mousePosition, camera);
+  private updateIntersections(intersections: THREE.Vector4[], velocities: THREE.Vector3[]) {
+    this.intersections = intersections;
+    this.pointerVelocities = velocities;
+    this.eventEmitter.emit('interactionPositionsUpdated', { positions: intersections, velocities, viewDirection: this.viewDirection.clone() });
+    // w=0 indicates no intersection
+    this.eventEmitter.emit('interactionPositionUpdated', { position: intersections[0] ?? { x: 0, y: 0, z: 0, w: 0 } });
+  }
+
+  private getFirstIntersection(camera: THREE.Camera, targetMesh: THREE.Mesh, pointer: THREE.Vector2): THREE.Vector3 | undefined {
+    this.raycaster.setFromCamera(pointer, camera);
 
     // Intersect with the provided target mesh (which should have the blended geometry)
     const intersects = this.raycaster.intersectObject(targetMesh, false);
 
     if (intersects.length > 0 && intersects[0].point) {
-      const worldPoint = intersects[0].point;
       // Return world point here, conversion to local happens in calculate()
-      return new THREE.Vector4(worldPoint.x, worldPoint.y, worldPoint.z, 1);
+      return intersects[0].point.clone();
     }
     return undefined;
   }
@@ -277,6 +318,9 @@ export class IntersectionService {
   }
 
   private blendGeometry(from: THREE.BufferGeometry, to: THREE.BufferGeometry, progress: number): THREE.BufferGeometry {
+    if (from.attributes.position.count !== to.attributes.position.count) {
+      return progress < 0.5 ? from : to; // no vertex pairs to blend, e.g. towards a point cloud
+    }
     const blended = new THREE.BufferGeometry();
     const originPositions = from.attributes.position.array;
     const destinationPositions = to.attributes.position.array;
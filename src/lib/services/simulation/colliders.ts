@@ -0,0 +1,57 @@
+import { Collider, ColliderType } from '@/lib/types';
+import * as THREE from 'three';
+
+/**
+ * The uniform representation of a collider, matching the Collider struct in colliderChunk.
+ */
+export type ColliderUniform = {
+  kind: number;
+  position: THREE.Vector3;
+  normal: THREE.Vector3;
+  halfSize: THREE.Vector3;
+  radius: number;
+  side: number;
+  bounce: number;
+  friction: number;
+  enabled: number;
+};
+
+const COLLIDER_KINDS: Record<ColliderType, number> = { plane: 0, box: 1, sphere: 2, sdf: 3 };
+
+/**
+ * Creates the uniform value for a collider.
+ * @param collider The collider.
+ * @returns The uniform value.
+ */
+export function createColliderUniform(collider: Collider): ColliderUniform {
+  const uniform: ColliderUniform = {
+    kind: 0,
+    position: new THREE.Vector3(),
+    normal: new THREE.Vector3(0, 1, 0),
+    halfSize: new THREE.Vector3(),
+    radius: 0,
+    side: 1,
+    bounce: 0,
+    friction: 0,
+    enabled: 1,
+  };
+  updateColliderUniform(uniform, collider);
+  return uniform;
+}
+
+/**
+ * Copies the parameters of a collider into an existing uniform value.
+ * @param uniform The uniform value to update.
+ * @param collider The collider.
+ */
+export function updateColliderUniform(uniform: ColliderUniform, collider: Collider) {
+  uniform.kind = COLLIDER_KINDS[collider.type];
+  uniform.position.copy(collider.position ?? { x: 0, y: 0, z: 0 });
+  uniform.normal.copy(collider.normal ?? { x: 0, y: 1, z: 0 }).normalize();
+  uniform.halfSize.copy(collider.size ?? { x: 1, y: 1, z: 1 }).multiplyScalar(0.5);
+  uniform.radius = collider.radius ?? 1;
+  uniform.side = collider.invert ? -1 : 1;
+  uniform.bounce = THREE.MathUtils.clamp(collider.bounce ?? 0.3, 0, 1);
+  uniform.friction = THREE.MathUtils.clamp(collider.friction ?? 0.1, 0, 1);
+  uniform.enabled = collider.enabled === false ? 0 : 1;
+}
@@ -0,0 +1,637 @@
+import {
+  Collider,
+  ForceField,
+  ForceFieldFalloff,
+  InteractionMode,
+  LifecycleOptions,
+  MorphPath,
+  ParticleReadback,
+  ParticleRect,
+  SimulationState,
+  StaggerOptions,
+} from '@/lib/types';
+import { clamp, createDataTexture, createSpherePoints } from '@/lib/utils';
+import * as THREE from 'three';
+import { ColliderUniform, createColliderUniform, updateColliderUniform } from './colliders';
+import { createForceFieldUniform, FORCE_FIELD_FALLOFFS, ForceFieldUniform, updateForceFieldUniform } from './forceFields';
+import { createMorphPathUniform, updateMorphPathUniform } from './morphPath';
+import { curlNoise, snoise, snoiseVec3 } from './noise';
+import { SignedDistanceField } from './signedDistanceField';
+import { MAX_INTERACTION_POINTS, PositionAtlasEntry, SimulationBackend } from './simulationBackend';
+import { createStaggerUniform, updateStaggerUniform } from './stagger';
+
+// Velocity change (units / step) of the pointer interaction at strength 1 and full influence, for a 60 Hz step, see interactionChunk.
+const INTERACTION_SCALE = 0.01;
+// Rate of the steps the traction and damping are tuned for, see the velocity and position shaders.
+const REFERENCE_STEP_RATE = 60;
+
+type Atlas = { data: ArrayLike<number>; numMeshes: number; singleTextureSize: number; atlasColumns: number };
+
+function fract(x: number) {
+  return x - Math.floor(x);
+}
+
+function mod(x: number, y: number) {
+  return x - y * Math.floor(x / y);
+}
+
+function smoothstep(edge0: number, edge1: number, x: number) {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+}
+
+function getFalloff(falloff: number, dist: number, radius: number) {
+  if (radius <= 0) return 1;
+  const t = clamp(dist / radius, 0, 1);
+  if (falloff === 1) return 1 - t;
+  if (falloff === 2) return 1 - smoothstep(0, 1, t);
+  if (falloff === 3) return dist < radius ? 1 / (1 + 25 * t * t) : 0;
+  return dist < radius ? 1 : 0;
+}
+
+/**
+ * CpuSimulationBackend runs the particle simulation on the CPU, mirroring the math of the velocity and position shaders.
+ * It needs no WebGL context, so it works on devices without float render targets.
+ * Shader hooks are GLSL and do not apply to it; ParticlesEngine.setShaderHooks reports them as invalid requests.
+ */
+export class CpuSimulationBackend implements SimulationBackend {
+  private readonly size: number;
+
+  private positions: Float32Array;
+  private velocities: Float32Array;
+  private nextPositions: Float32Array;
+  private nextVelocities: Float32Array;
+  private readonly positionTexture: THREE.DataTexture;
+  private readonly velocityTexture: THREE.DataTexture;
+
+  private atlas: Atlas;
+  private overallProgress = 0;
+  private time = 0;
+  private velocityTractionForce = 0.1;
+  private positionalTractionForce = 0.1;
+
+  private maxRepelDistance = 0.3;
+  private interactionMode: InteractionMode = 'repel';
+  private interactionStrength = 1;
+  private interactionFalloff = FORCE_FIELD_FALLOFFS.smooth;
+  private readonly interactionPositions = Array.from({ length: MAX_INTERACTION_POINTS }, () => new THREE.Vector4());
+  private readonly interactionVelocities = Array.from({ length: MAX_INTERACTION_POINTS }, () => new THREE.Vector3());
+  private readonly interactionViewDirection = new THREE.Vector3(0, 0, -1);
+
+  private forceFields: ForceFieldUniform[] = [];
+  private colliders: ColliderUniform[] = [];
+  private sdf?: SignedDistanceField;
+
+  private lifecycle: LifecycleOptions = { enabled: false, lifetime: [2, 4], birthRate: 0, emitter: { type: 'target' }, fade: false, shrink: true };
+  private emitterTexture: THREE.Texture | null = null;
+
+  private readonly stagger = createStaggerUniform();
+  private targetStagger = 0; // stagger value of the last getTargetPosition call
+  private readonly morphPath = createMorphPathUniform();
+
+  // Scratch vectors, reused for every particle
+  private readonly position = new THREE.Vector3();
+  private readonly velocity = new THREE.Vector3();
+  private readonly target = new THREE.Vector3();
+  private readonly finalVelocity = new THREE.Vector3();
+  private readonly finalPosition = new THREE.Vector3();
+  private readonly dampedVelocity = new THREE.Vector3();
+  private readonly temp = new THREE.Vector3();
+  private readonly temp2 = new THREE.Vector3();
+  private readonly normal = new THREE.Vector3();
+  private readonly probe = new THREE.Vector3();
+
+  /**
+   * Creates a new CpuSimulationBackend instance.
+   * @param size The size of the simulation textures (width/height).
+   * @param initialPosition The initial position data texture (optional, defaults to sphere).
+   */
+  constructor(size: number, initialPosition?: THREE.DataTexture) {
+    this.size = size;
+    const initial = initialPosition ?? createSpherePoints(size);
+    this.positions = new Float32Array(initial.image.data as Float32Array);
+    this.velocities = new Float32Array(4 * size * size);
+    this.nextPositions = new Float32Array(this.positions.length);
+    this.nextVelocities = new Float32Array(this.velocities.length);
+    this.positionTexture = createDataTexture(this.positions, size);
+    this.velocityTexture = createDataTexture(this.velocities, size);
+    // Use the initial positions as the 'atlas' before the real one is set
+    this.atlas = { data: new Float32Array(this.positions), numMeshes: 1, singleTextureSize: size, atlasColumns: 1 };
+    if (!initialPosition) initial.dispose();
+  }
+
+  setPositionAtlas(entry: PositionAtlasEntry) {
+    this.atlas = {
+      data: entry.dataTexture.image.data as Float32Array,
+      numMeshes: Math.max(1, entry.numMeshes),
+      singleTextureSize: entry.singleTextureSize,
+      atlasColumns: Math.max(1, entry.atlasColumns),
+    };
+  }
+
+  setOverallProgress(progress: number) {
+    this.overallProgress = clamp(progress, 0.0, 1.0);
+  }
+
+  setMaxRepelDistance(distance: number) {
+    this.maxRepelDistance = distance;
+  }
+
+  setInteractionMode(mode: InteractionMode) {
+    this.interactionMode = mode;
+  }
+
+  setInteractionStrength(strength: number) {
+    this.interactionStrength = strength;
+  }
+
+  setInteractionFalloff(falloff: ForceFieldFalloff) {
+    this.interactionFalloff = FORCE_FIELD_FALLOFFS[falloff];
+  }
+
+  setInteractionViewDirection(direction: THREE.Vector3Like) {
+    this.interactionViewDirection.copy(direction);
+  }
+
+  setInteractionPosition(position: THREE.Vector4Like) {
+    this.setInteractionPositions([position]);
+  }
+
+  setInteractionPositions(positions: THREE.Vector4Like[], velocities: THREE.Vector3Like[] = []) {
+    this.interactionPositions.forEach((interactionPosition, index) => {
+      const position = positions[index];
+      if (position) interactionPosition.copy(position);
+      else interactionPosition.set(0, 0, 0, 0);
+      this.interactionVelocities[index].copy(velocities[index] ?? { x: 0, y: 0, z: 0 });
+    });
+  }
+
+  setVelocityTractionForce(force: number) {
+    this.velocityTractionForce = force;
+  }
+
+  setPositionalTractionForce(force: number) {
+    this.positionalTractionForce = force;
+  }
+
+  setForceFields(fields: ForceField[]) {
+    if (this.forceFields.length !== fields.length) {
+      this.forceFields = fields.map(createForceFieldUniform);
+      return;
+    }
+    fields.forEach((field, index) => updateForceFieldUniform(this.forceFields[index], field));
+  }
+
+  setColliders(colliders: Collider[], sdf?: SignedDistanceField) {
+    this.sdf = sdf;
+    if (this.colliders.length !== colliders.length) {
+      this.colliders = colliders.map(createColliderUniform);
+      return;
+    }
+    colliders.forEach((collider, index) => updateColliderUniform(this.colliders[index], collider));
+  }
+
+  setLifecycle(options: LifecycleOptions, emitterTexture: THREE.Texture | null = null) {
+    this.lifecycle = options;
+    this.emitterTexture = emitterTexture;
+  }
+
+  setStagger(options: StaggerOptions) {
+    updateStaggerUniform(this.stagger, options);
+  }
+
+  setMorphPath(path: MorphPath) {
+    updateMorphPathUniform(this.morphPath, path);
+  }
+
+  setShaderHooks(): string[] {
+    // There are no shaders to hook into
+    return [];
+  }
+
+  /**
+   * Computes the next step of the simulation.
+   * Like the GPU passes, both the velocity and the position step read the state of the previous step.
+   * @param deltaTime The duration of the step, in seconds.
+   */
+  compute(deltaTime: number) {
+    this.time += deltaTime;
+    const size = this.size;
+    const steps = deltaTime * REFERENCE_STEP_RATE;
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const index = y * size + x;
+        const offset = index * 4;
+        const u = (x + 0.5) / size;
+        const v = (y + 0.5) / size;
+
+        const position = this.position.fromArray(this.positions, offset);
+        const velocity = this.velocity.fromArray(this.velocities, offset);
+        const age = this.positions[offset + 3];
+        const lifetime = this.velocities[offset + 3];
+        const target = this.getTargetPosition(u, v, this.target);
+        const staggerSpeed = THREE.MathUtils.lerp(1, this.stagger.speed, this.targetStagger);
+        const respawn = this.shouldRespawn(age, lifetime, index, deltaTime);
+
+        // --- Velocity pass ---
+        const finalVelocity = this.finalVelocity.copy(velocity).multiplyScalar(0.9 ** steps); // Dampening
+        const dist = position.distanceTo(target);
+        if (dist > 0.01) {
+          const traction = dist * 0.01 * this.velocityTractionForce * staggerSpeed * steps * steps;
+          finalVelocity.addScaledVector(this.temp.subVectors(target, position).normalize(), traction);
+        }
+
+        this.dampedVelocity.copy(finalVelocity);
+        for (let i = 0; i < MAX_INTERACTION_POINTS; i++) {
+          this.addInteractionVelocity(i, position, deltaTime, finalVelocity);
+        }
+
+        for (const field of this.forceFields) {
+          finalVelocity.addScaledVector(this.getForceFieldAcceleration(field, position, this.temp), deltaTime * deltaTime);
+        }
+
+        for (const collider of this.colliders) {
+          this.collideVelocity(collider, position, finalVelocity);
+        }
+
+        let nextLifetime = lifetime;
+        if (respawn) finalVelocity.set(0, 0, 0); // Reset velocity on respawn
+        if (!this.lifecycle.enabled) {
+          nextLifetime = 0;
+        } else if (respawn || lifetime <= 0) {
+          nextLifetime = this.getSpawnLifetime(u, v);
+        }
+        finalVelocity.toArray(this.nextVelocities, offset);
+        this.nextVelocities[offset + 3] = nextLifetime;
+
+        // --- Position pass ---
+        const finalPosition = this.finalPosition.copy(position);
+        if (dist > 0.01) {
+          const traction = clamp(0.1 * this.positionalTractionForce * staggerSpeed, 0, 1);
+          finalPosition.lerp(target, 1 - (1 - traction) ** steps);
+        }
+        finalPosition.add(velocity);
+
+        for (const collider of this.colliders) {
+          this.collidePosition(collider, finalPosition);
+        }
+
+        let nextAge = age;
+        if (!this.lifecycle.enabled) {
+          nextAge = 0;
+        } else if (lifetime <= 0) {
+          nextAge = lifecycleHash(u, v, 0) * this.getSpawnLifetime(u, v); // spread the first deaths over the lifetime
+        } else if (respawn) {
+          this.getEmitterPosition(u, v, target, finalPosition);
+          nextAge = 0;
+        } else {
+          nextAge += deltaTime;
+        }
+        finalPosition.toArray(this.nextPositions, offset);
+        this.nextPositions[offset + 3] = nextAge;
+      }
+    }
+
+    [this.positions, this.nextPositions] = [this.nextPositions, this.positions];
+    [this.velocities, this.nextVelocities] = [this.nextVelocities, this.velocities];
+    this.positionTexture.image.data = this.positions;
+    this.velocityTexture.image.data = this.velocities;
+    this.positionTexture.needsUpdate = true;
+    this.velocityTexture.needsUpdate = true;
+  }
+
+  async readParticles(rect: ParticleRect): Promise<ParticleReadback> {
+    return { positions: this.copyRect(this.positions, rect), velocities: this.copyRect(this.velocities, rect), rect };
+  }
+
+  restoreState(state: SimulationState) {
+    if (state.textureSize !== this.size) {
+      throw new Error(`Simulation state size ${state.textureSize} does not match the simulation size ${this.size}.`);
+    }
+    this.positions.set(state.positions);
+    this.velocities.set(state.velocities);
+    this.positionTexture.needsUpdate = true;
+    this.velocityTexture.needsUpdate = true;
+    this.time = state.time;
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  getPositionTexture(): THREE.Texture {
+    return this.positionTexture;
+  }
+
+  getVelocityTexture(): THREE.Texture {
+    return this.velocityTexture;
+  }
+
+  dispose() {
+    this.positionTexture.dispose();
+    this.velocityTexture.dispose();
+    this.emitterTexture = null;
+    this.sdf = undefined;
+  }
+
+  private copyRect(source: Float32Array, { x, y, width, height }: ParticleRect) {
+    const result = new Float32Array(width * height * 4);
+    for (let row = 0; row < height; row++) {
+      const start = ((y + row) * this.size + x) * 4;
+      result.set(source.subarray(start, start + width * 4), row * width * 4);
+    }
+    return result;
+  }
+
+  private getAtlasPosition(u: number, v: number, meshIndex: number, target: THREE.Vector3) {
+    const { data, singleTextureSize, atlasColumns } = this.atlas;
+    const atlasWidth = singleTextureSize * atlasColumns;
+    const column = meshIndex % atlasColumns;
+    const row = Math.floor(meshIndex / atlasColumns);
+    const x = column * singleTextureSize + Math.min(Math.floor(u * singleTextureSize), singleTextureSize - 1);
+    const y = row * singleTextureSize + Math.min(Math.floor(v * singleTextureSize), singleTextureSize - 1);
+    const offset = (y * atlasWidth + x) * 4;
+    return target.set(data[offset], data[offset + 1], data[offset + 2]);
+  }
+
+  private getTargetPosition(u: number, v: number, target: THREE.Vector3) {
+    const numMeshes = this.atlas.numMeshes;
+    if (numMeshes <= 1) {
+      this.getAtlasPosition(u, v, 0, target);
+      this.targetStagger = this.getStaggerValue(u, v, target);
+      return target;
+    }
+
+    const scaledProgress = this.overallProgress * (numMeshes - 1);
+    let indexA = Math.min(Math.floor(scaledProgress), numMeshes - 1);
+    let indexB = Math.min(indexA + 1, numMeshes - 1);
+    let localProgress = fract(scaledProgress);
+    if (this.overallProgress === 1.0) {
+      indexA = numMeshes - 1;
+      indexB = numMeshes - 1;
+      localProgress = 1.0;
+    }
+    const positionB = this.getAtlasPosition(u, v, indexB, this.temp2);
+    const positionA = this.getAtlasPosition(u, v, indexA, target);
+
+    // Later particles leave later, but every particle arrives by the end of the transition
+    const { delay } = this.stagger;
+    this.targetStagger = this.getStaggerValue(u, v, positionA);
+    localProgress = clamp((localProgress - this.targetStagger * delay) / (1 - delay), 0, 1);
+    return this.getPathPosition(u, v, positionA.lerp(positionB, localProgress), localProgress);
+  }
+
+  private getPathPosition(u: number, v: number, position: THREE.Vector3, progress: number) {
+    const { mode, amplitude, axis, frequency } = this.morphPath;
+    const envelope = Math.sin(progress * Math.PI);
+    if (mode === 1) {
+      const outward = position.lengthSq() > 0.0001 * 0.0001 ? this.probe.copy(position).normalize() : this.probe.set(0, 1, 0);
+      return position.addScaledVector(outward, amplitude * envelope);
+    } else if (mode === 2) {
+      const rotated = this.probe.copy(position).applyAxisAngle(axis, progress * 2 * Math.PI * amplitude);
+      return position.lerp(rotated, envelope);
+    } else if (mode === 3) {
+      // A random point in a ball, so the cloud is filled rather than a shell
+      const theta = lifecycleHash(u, v, 0.11) * 2 * Math.PI;
+      const cosPhi = lifecycleHash(u, v, 0.23) * 2 - 1;
+      const sinPhi = Math.sqrt(1 - cosPhi * cosPhi);
+      const radius = Math.pow(lifecycleHash(u, v, 0.59), 1 / 3);
+      const direction = this.probe.set(sinPhi * Math.cos(theta), sinPhi * Math.sin(theta), cosPhi);
+      return position.addScaledVector(direction, radius * amplitude * envelope);
+    } else if (mode === 4) {
+      const offset = snoiseVec3(position.x * frequency, position.y * frequency, position.z * frequency, this.probe);
+      return position.addScaledVector(offset, amplitude * envelope);
+    }
+    return position;
+  }
+
+  private getStaggerValue(u: number, v: number, position: THREE.Vector3) {
+    const { mode, origin, axis, range, texture } = this.stagger;
+    let value: number;
+    if (mode === 1) {
+      value = lifecycleHash(u, v, 0.37);
+    } else if (mode === 2) {
+      value = position.distanceTo(origin);
+    } else if (mode === 3) {
+      value = position.dot(axis);
+    } else if (mode === 4) {
+      value = getTexel(texture, u, v);
+    } else {
+      return 0;
+    }
+    if (mode === 2 || mode === 3) {
+      value = (value - range.x) / Math.max(range.y - range.x, 0.0001);
+    }
+    value = clamp(value, 0, 1);
+    return this.stagger.invert > 0.5 ? 1 - value : value;
+  }
+
+  private addInteractionVelocity(index: number, position: THREE.Vector3, deltaTime: number, finalVelocity: THREE.Vector3) {
+    const interactionPosition = this.interactionPositions[index];
+    const offset = this.temp.set(position.x - interactionPosition.x, position.y - interactionPosition.y, position.z - interactionPosition.z);
+    const dist = offset.length();
+    if (interactionPosition.w <= 0 || dist >= this.maxRepelDistance) return;
+
+    const influence = getFalloff(this.interactionFalloff, dist, this.maxRepelDistance) * interactionPosition.w * this.interactionStrength;
+    const direction = offset.divideScalar(Math.max(dist, 0.0001));
+    const steps = deltaTime * REFERENCE_STEP_RATE;
+    const scale = INTERACTION_SCALE * steps * steps;
+
+    switch (this.interactionMode) {
+      case 'attract':
+        finalVelocity.addScaledVector(direction, -influence * scale);
+        break;
+      case 'swirl':
+        finalVelocity.addScaledVector(direction.crossVectors(this.interactionViewDirection, direction), influence * scale);
+        break;
+      case 'push': {
+        // Blend toward the pointer velocity, converted to units / step
+        const blend = 1 - Math.pow(1 - clamp(influence * 0.1, 0, 1), steps);
+        const pointerVelocity = this.interactionVelocities[index];
+        finalVelocity.addScaledVector(direction.copy(pointerVelocity).multiplyScalar(deltaTime).sub(this.dampedVelocity), blend);
+        break;
+      }
+      default:
+        finalVelocity.addScaledVector(direction, influence * scale);
+    }
+  }
+
+  private getForceFieldAcceleration(field: ForceFieldUniform, position: THREE.Vector3, target: THREE.Vector3) {
+    if (field.enabled < 0.5) return target.set(0, 0, 0);
+
+    const offset = this.temp2.subVectors(position, field.position);
+    const dist = offset.length();
+    target.set(0, 0, 0);
+
+    if (field.kind === 0) {
+      if (dist > 0.0001) target.copy(offset).divideScalar(-dist);
+    } else if (field.kind === 1) {
+      const axis = this.normal.copy(field.direction).normalize();
+      const radial = offset.addScaledVector(axis, -offset.dot(axis));
+      if (radial.length() > 0.0001) target.crossVectors(axis, radial).normalize();
+    } else if (field.kind === 2) {
+      const phase = this.time * field.speed;
+      const gust = 1.0 + 0.5 * snoise(position.x * field.frequency + phase, position.y * field.frequency + phase, position.z * field.frequency + phase);
+      target.copy(field.direction).normalize().multiplyScalar(gust);
+    } else if (field.kind === 3) {
+      target.copy(field.direction).normalize();
+    } else if (field.kind === 4) {
+      const phase = this.time * field.speed;
+      curlNoise(this.probe.copy(position).multiplyScalar(field.frequency).addScalar(phase), target);
+    }
+
+    return target.multiplyScalar(field.strength * getFalloff(field.falloff, dist, field.radius));
+  }
+
+  private getSdfVoxel(x: number, y: number, z: number) {
+    const sdf = this.sdf!;
+    const max = sdf.resolution - 1;
+    x = clamp(x, 0, max);
+    y = clamp(y, 0, max);
+    z = clamp(z, 0, max);
+    const textureSize = sdf.tilesPerRow * sdf.resolution;
+    const u = (z % sdf.tilesPerRow) * sdf.resolution + x;
+    const v = Math.floor(z / sdf.tilesPerRow) * sdf.resolution + y;
+    return (sdf.texture.image.data as Float32Array)[(v * textureSize + u) * 4];
+  }
+
+  private getSdfDistance(px: number, py: number, pz: number) {
+    const sdf = this.sdf;
+    if (!sdf) return 0;
+    const { min, max, resolution } = sdf;
+    const vx = ((px - min.x) / (max.x - min.x)) * resolution - 0.5;
+    const vy = ((py - min.y) / (max.y - min.y)) * resolution - 0.5;
+    const vz = ((pz - min.z) / (max.z - min.z)) * resolution - 0.5;
+    const bx = Math.floor(vx);
+    const by = Math.floor(vy);
+    const bz = Math.floor(vz);
+    const fx = vx - bx;
+    const fy = vy - by;
+    const fz = vz - bz;
+
+    const lerp = THREE.MathUtils.lerp;
+    const d00 = lerp(this.getSdfVoxel(bx, by, bz), this.getSdfVoxel(bx + 1, by, bz), fx);
+    const d10 = lerp(this.getSdfVoxel(bx, by + 1, bz), this.getSdfVoxel(bx + 1, by + 1, bz), fx);
+    const d01 = lerp(this.getSdfVoxel(bx, by, bz + 1), this.getSdfVoxel(bx + 1, by, bz + 1), fx);
+    const d11 = lerp(this.getSdfVoxel(bx, by + 1, bz + 1), this.getSdfVoxel(bx + 1, by + 1, bz + 1), fx);
+    const d = lerp(lerp(d00, d10, fy), lerp(d01, d11, fy), fz);
+
+    // Outside the baked bounds, add the distance to the bounds
+    const qx = Math.max(Math.abs(px - (min.x + max.x) * 0.5) - (max.x - min.x) * 0.5, 0);
+    const qy = Math.max(Math.abs(py - (min.y + max.y) * 0.5) - (max.y - min.y) * 0.5, 0);
+    const qz = Math.max(Math.abs(pz - (min.z + max.z) * 0.5) - (max.z - min.z) * 0.5, 0);
+    return d + Math.sqrt(qx * qx + qy * qy + qz * qz);
+  }
+
+  private getColliderDistance(collider: ColliderUniform, px: number, py: number, pz: number) {
+    const ox = px - collider.position.x;
+    const oy = py - collider.position.y;
+    const oz = pz - collider.position.z;
+    let dist: number;
+    if (collider.kind === 0) {
+      dist = ox * collider.normal.x + oy * collider.normal.y + oz * collider.normal.z;
+    } else if (collider.kind === 1) {
+      const qx = Math.abs(ox) - collider.halfSize.x;
+      const qy = Math.abs(oy) - collider.halfSize.y;
+      const qz = Math.abs(oz) - collider.halfSize.z;
+      const outside = Math.hypot(Math.max(qx, 0), Math.max(qy, 0), Math.max(qz, 0));
+      dist = outside + Math.min(Math.max(qx, qy, qz), 0);
+    } else if (collider.kind === 2) {
+      dist = Math.hypot(ox, oy, oz) - collider.radius;
+    } else {
+      dist = this.getSdfDistance(ox, oy, oz);
+    }
+    return dist * collider.side;
+  }
+
+  private getColliderNormal(collider: ColliderUniform, p: THREE.Vector3, target: THREE.Vector3) {
+    const e = 0.005;
+    target.set(
+      this.getColliderDistance(collider, p.x + e, p.y, p.z) - this.getColliderDistance(collider, p.x - e, p.y, p.z),
+      this.getColliderDistance(collider, p.x, p.y + e, p.z) - this.getColliderDistance(collider, p.x, p.y - e, p.z),
+      this.getColliderDistance(collider, p.x, p.y, p.z + e) - this.getColliderDistance(collider, p.x, p.y, p.z - e),
+    );
+    return target.lengthSq() > 0 ? target.normalize() : target.set(0, 1, 0);
+  }
+
+  private collideVelocity(collider: ColliderUniform, position: THREE.Vector3, velocity: THREE.Vector3) {
+    if (collider.enabled < 0.5) return;
+    const nextPosition = this.probe.addVectors(position, velocity);
+    if (this.getColliderDistance(collider, nextPosition.x, nextPosition.y, nextPosition.z) >= 0) return;
+
+    const normal = this.getColliderNormal(collider, nextPosition, this.normal);
+    const normalSpeed = velocity.dot(normal);
+    if (normalSpeed >= 0) return; // already leaving
+    const tangent = this.temp.copy(velocity).addScaledVector(normal, -normalSpeed);
+    velocity.copy(tangent.multiplyScalar(1 - collider.friction)).addScaledVector(normal, -normalSpeed * collider.bounce);
+  }
+
+  private collidePosition(collider: ColliderUniform, position: THREE.Vector3) {
+    if (collider.enabled < 0.5) return;
+    const dist = this.getColliderDistance(collider, position.x, position.y, position.z);
+    if (dist >= 0) return;
+    position.addScaledVector(this.getColliderNormal(collider, position, this.normal), -dist);
+  }
+
+  private getSpawnLifetime(u: number, v: number) {
+    const [min, max] = this.lifecycle.lifetime;
+    return THREE.MathUtils.lerp(Math.max(0.001, min), Math.max(0.001, max), lifecycleHash(u, v, fract(this.time * 0.618)));
+  }
+
+  private isInEmissionSlot(index: number, deltaTime: number) {
+    const count = this.size * this.size;
+    const birthRate = Math.max(0, this.lifecycle.birthRate);
+    const cursorStart = mod((this.time - deltaTime) * birthRate, count);
+    const cursorEnd = mod(this.time * birthRate, count);
+    if (cursorStart <= cursorEnd) return index >= cursorStart && index < cursorEnd;
+    return index >= cursorStart || index < cursorEnd;
+  }
+
+  private shouldRespawn(age: number, lifetime: number, index: number, deltaTime: number) {
+    if (!this.lifecycle.enabled || lifetime <= 0) return false;
+    if (age + deltaTime < lifetime) return false;
+    return this.lifecycle.birthRate <= 0 || this.isInEmissionSlot(index, deltaTime);
+  }
+
+  private getEmitterPosition(u: number, v: number, targetPosition: THREE.Vector3, result: THREE.Vector3) {
+    const salt = fract(this.time * 0.377);
+    const emitter = this.lifecycle.emitter;
+    const emitterData = this.emitterTexture?.image?.data as ArrayLike<number> | undefined;
+
+    if (emitter.type === 'mesh' && emitterData) {
+      const { width, height } = this.emitterTexture!.image;
+      const x = Math.min(Math.floor(lifecycleHash(u, v, salt) * width), width - 1);
+      const y = Math.min(Math.floor(lifecycleHash(u, v, salt + 0.5) * height), height - 1);
+      const offset = (y * width + x) * 4;
+      return result.set(emitterData[offset], emitterData[offset + 1], emitterData[offset + 2]);
+    }
+    if (emitter.type !== 'point') {
+      return result.copy(targetPosition);
+    }
+    const theta = lifecycleHash(u, v, salt) * 6.2831853;
+    const phi = Math.acos(lifecycleHash(u, v, salt + 0.25) * 2.0 - 1.0);
+    const r = (emitter.radius ?? 0) * Math.pow(lifecycleHash(u, v, salt + 0.75), 1.0 / 3.0);
+    return result
+      .set(Math.sin(phi) * Math.cos(theta), Math.sin(phi) * Math.sin(theta), Math.cos(phi))
+      .multiplyScalar(r)
+      .add(emitter.position);
+  }
+}
+
+/**
+ * Reads the red channel of a data texture at a uv, normalized like texture2D.
+ */
+function getTexel(texture: THREE.Texture | null, u: number, v: number) {
+  const image = texture?.image as { data?: ArrayLike<number>; width: number; height: number } | undefined;
+  if (!image?.data) return 0;
+  const x = Math.min(Math.floor(u * image.width), image.width - 1);
+  const y = Math.min(Math.floor(v * image.height), image.height - 1);
+  const channels = image.data.length / (image.width * image.height);
+  const value = image.data[(y * image.width + x) * channels];
+  return image.data instanceof Uint8Array || image.data instanceof Uint8ClampedArray ? value / 255 : value;
+}
+
+function lifecycleHash(u: number, v: number, salt: number) {
+  return fract(Math.sin((u + salt) * 12.9898 + (v + salt) * 78.233) * 43758.5453);
+}
@@ -0,0 +1,65 @@
+import { ForceField, ForceFieldFalloff, ForceFieldType } from '@/lib/types';
+import * as THREE from 'three';
+
+/**
+ * The uniform representation of a force field, matching the ForceField struct in forceFieldChunk.
+ */
+export type ForceFieldUniform = {
+  kind: number;
+  position: THREE.Vector3;
+  direction: THREE.Vector3;
+  strength: number;
+  radius: number;
+  falloff: number;
+  frequency: number;
+  speed: number;
+  enabled: number;
+};
+
+const FORCE_FIELD_KINDS: Record<ForceFieldType, number> = { attractor: 0, vortex: 1, wind: 2, gravity: 3, turbulence: 4 };
+export const FORCE_FIELD_FALLOFFS: Record<ForceFieldFalloff, number> = { none: 0, linear: 1, smooth: 2, 'inverse-square': 3 };
+const DEFAULT_DIRECTIONS: Record<ForceFieldType, THREE.Vector3Like> = {
+  attractor: { x: 0, y: 0, z: 0 },
+  vortex: { x: 0, y: 1, z: 0 },
+  wind: { x: 1, y: 0, z: 0 },
+  gravity: { x: 0, y: -1, z: 0 },
+  turbulence: { x: 0, y: 0, z: 0 },
+};
+
+/**
+ * Creates the uniform value for a force field.
+ * @param field The force field.
+ * @returns The uniform value.
+ */
+export function createForceFieldUniform(field: ForceField): ForceFieldUniform {
+  const uniform: ForceFieldUniform = {
+    kind: 0,
+    position: new THREE.Vector3(),
+    direction: new THREE.Vector3(),
+    strength: 0,
+    radius: 0,
+    falloff: 0,
+    frequency: 1,
+    speed: 0,
+    enabled: 1,
+  };
+  updateForceFieldUniform(uniform, field);
+  return uniform;
+}
+
+/**
+ * Copies the parameters of a force field into an existing uniform value.
+ * @param uniform The uniform value to update.
+ * @param field The force field.
+ */
+export function updateForceFieldUniform(uniform: ForceFieldUniform, field: ForceField) {
+  uniform.kind = FORCE_FIELD_KINDS[field.type];
+  uniform.position.copy(field.position ?? { x: 0, y: 0, z: 0 });
+  uniform.direction.copy(field.direction ?? DEFAULT_DIRECTIONS[field.type]);
+  uniform.strength = field.strength;
+  uniform.radius = field.radius ?? 0;
+  uniform.falloff = FORCE_FIELD_FALLOFFS[field.falloff ?? 'none'];
+  uniform.frequency = field.frequency ?? 1;
+  uniform.speed = field.speed ?? 0;
+  uniform.enabled = field.enabled === false ? 0 : 1;
+}
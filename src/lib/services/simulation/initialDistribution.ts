@@ -0,0 +1,75 @@
+import { InitialDistribution, RandomFunction } from '@/lib/types';
+import { createDataTexture, createSpherePoints } from '@/lib/utils';
+import * as THREE from 'three';
+
+/**
+ * Creates the initial particle positions of the given layout.
+ * The first-mesh layout starts on a sphere; the engine moves the particles once the sequence is set.
+ * @param size The size of the simulation texture.
+ * @param distribution The layout.
+ * @param random The random function used for the random layouts.
+ * @returns The positions, with a small random value in w like createSpherePoints.
+ */
+export function createInitialPositions(size: number, distribution: InitialDistribution, random: RandomFunction = Math.random): THREE.DataTexture {
+  const scale = distribution.scale ?? 1;
+  if (distribution.type === 'sphere' || distribution.type === 'first-mesh') {
+    const texture = createSpherePoints(size, random);
+    if (scale !== 1) scalePositions(texture.image.data as Float32Array, scale);
+    return texture;
+  }
+
+  const count = size * size;
+  const data = new Float32Array(count * 4);
+  const point = new THREE.Vector3();
+  const boxSize = new THREE.Vector3().copy(distribution.size ?? { x: 2, y: 2, z: 2 });
+  const cubeSide = Math.ceil(Math.cbrt(count));
+
+  for (let index = 0; index < count; index++) {
+    switch (distribution.type) {
+      case 'sphere-volume': {
+        const theta = random() * Math.PI * 2;
+        const phi = Math.acos(random() * 2 - 1);
+        point.setFromSphericalCoords(Math.cbrt(random()) * scale, phi, theta);
+        break;
+      }
+      case 'cube': {
+        const x = index % cubeSide;
+        const y = Math.floor(index / cubeSide) % cubeSide;
+        const z = Math.floor(index / (cubeSide * cubeSide));
+        point.set(gridCoordinate(x, cubeSide), gridCoordinate(y, cubeSide), gridCoordinate(z, cubeSide)).multiplyScalar(scale);
+        break;
+      }
+      case 'plane':
+        point.set(gridCoordinate(index % size, size), gridCoordinate(Math.floor(index / size), size), 0).multiplyScalar(scale);
+        break;
+      case 'disk': {
+        const theta = random() * Math.PI * 2;
+        const radius = Math.sqrt(random()) * scale;
+        point.set(Math.cos(theta) * radius, Math.sin(theta) * radius, 0);
+        break;
+      }
+      case 'box':
+        point.set(random() - 0.5, random() - 0.5, random() - 0.5).multiply(boxSize);
+        break;
+    }
+    point.toArray(data, index * 4);
+    data[index * 4 + 3] = (random() - 0.5) * 0.01;
+  }
+
+  return createDataTexture(data, size);
+}
+
+/**
+ * Maps a grid index to -1..1, centering the points in their cells.
+ */
+function gridCoordinate(index: number, count: number) {
+  return ((index + 0.5) / count) * 2 - 1;
+}
+
+function scalePositions(data: Float32Array, scale: number) {
+  for (let offset = 0; offset < data.length; offset += 4) {
+    data[offset] *= scale;
+    data[offset + 1] *= scale;
+    data[offset + 2] *= scale;
+  }
+}
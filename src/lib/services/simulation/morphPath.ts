@@ -0,0 +1,33 @@
+import { MorphPath, MorphPathMode } from '@/lib/types';
+import * as THREE from 'three';
+
+/**
+ * The uniform values of a morph path, matching the path uniforms in targetChunk.
+ */
+export type MorphPathUniform = {
+  mode: number;
+  amplitude: number;
+  axis: THREE.Vector3;
+  frequency: number;
+};
+
+const MORPH_PATH_MODES: Record<MorphPathMode, number> = { linear: 0, arc: 1, spiral: 2, scatter: 3, noise: 4 };
+
+/**
+ * Creates the uniform values of the linear path.
+ */
+export function createMorphPathUniform(): MorphPathUniform {
+  return { mode: 0, amplitude: 1, axis: new THREE.Vector3(0, 1, 0), frequency: 1 };
+}
+
+/**
+ * Copies a morph path into an existing uniform value.
+ * @param uniform The uniform value to update.
+ * @param path The morph path.
+ */
+export function updateMorphPathUniform(uniform: MorphPathUniform, path: MorphPath) {
+  uniform.mode = MORPH_PATH_MODES[path.mode];
+  uniform.amplitude = path.amplitude ?? 1;
+  uniform.axis.copy(path.axis ?? { x: 0, y: 1, z: 0 }).normalize();
+  uniform.frequency = path.frequency ?? 1;
+}
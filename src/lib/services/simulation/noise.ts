@@ -0,0 +1,102 @@
+import * as THREE from 'three';
+
+// CPU port of shaders/noiseChunk, used by the CPU simulation backend.
+
+function mod289(x: number) {
+  return x - Math.floor(x * (1.0 / 289.0)) * 289.0;
+}
+
+function permute(x: number) {
+  return mod289((x * 34.0 + 1.0) * x);
+}
+
+function taylorInvSqrt(r: number) {
+  return 1.79284291400159 - 0.85373472095314 * r;
+}
+
+/**
+ * 3D simplex noise, matching snoise in shaders/noiseChunk.
+ */
+export function snoise(vx: number, vy: number, vz: number): number {
+  const s = (vx + vy + vz) / 3.0;
+  const ix = Math.floor(vx + s);
+  const iy = Math.floor(vy + s);
+  const iz = Math.floor(vz + s);
+  const t = (ix + iy + iz) / 6.0;
+  const x0 = [vx - ix + t, vy - iy + t, vz - iz + t];
+
+  const g = [x0[0] >= x0[1] ? 1 : 0, x0[1] >= x0[2] ? 1 : 0, x0[2] >= x0[0] ? 1 : 0];
+  const l = [1 - g[0], 1 - g[1], 1 - g[2]];
+  const i1 = [Math.min(g[0], l[2]), Math.min(g[1], l[0]), Math.min(g[2], l[1])];
+  const i2 = [Math.max(g[0], l[2]), Math.max(g[1], l[0]), Math.max(g[2], l[1])];
+
+  const corners = [
+    x0,
+    [x0[0] - i1[0] + 1.0 / 6.0, x0[1] - i1[1] + 1.0 / 6.0, x0[2] - i1[2] + 1.0 / 6.0],
+    [x0[0] - i2[0] + 1.0 / 3.0, x0[1] - i2[1] + 1.0 / 3.0, x0[2] - i2[2] + 1.0 / 3.0],
+    [x0[0] - 0.5, x0[1] - 0.5, x0[2] - 0.5],
+  ];
+  const offsetsX = [0, i1[0], i2[0], 1];
+  const offsetsY = [0, i1[1], i2[1], 1];
+  const offsetsZ = [0, i1[2], i2[2], 1];
+
+  const mx = mod289(ix);
+  const my = mod289(iy);
+  const mz = mod289(iz);
+
+  const nsX = 2.0 / 7.0;
+  const nsY = 0.5 / 7.0 - 1.0;
+  const nsZ = 1.0 / 7.0;
+
+  let result = 0;
+  for (let k = 0; k < 4; k++) {
+    const p = permute(permute(permute(mz + offsetsZ[k]) + my + offsetsY[k]) + mx + offsetsX[k]);
+    const j = p - 49.0 * Math.floor(p * nsZ * nsZ);
+    const xf = Math.floor(j * nsZ);
+    const yf = Math.floor(j - 7.0 * xf);
+    const x = xf * nsX + nsY;
+    const y = yf * nsX + nsY;
+    const h = 1.0 - Math.abs(x) - Math.abs(y);
+
+    const sh = h <= 0.0 ? -1.0 : 0.0;
+    const gx = x + (Math.floor(x) * 2.0 + 1.0) * sh;
+    const gy = y + (Math.floor(y) * 2.0 + 1.0) * sh;
+    const norm = taylorInvSqrt(gx * gx + gy * gy + h * h);
+
+    const corner = corners[k];
+    const m = Math.max(0.6 - (corner[0] * corner[0] + corner[1] * corner[1] + corner[2] * corner[2]), 0.0);
+    result += m * m * m * m * norm * (gx * corner[0] + gy * corner[1] + h * corner[2]);
+  }
+  return 42.0 * result;
+}
+
+/**
+ * Three decorrelated simplex noise values, matching snoiseVec3 in shaders/noiseChunk.
+ */
+export function snoiseVec3(x: number, y: number, z: number, target: THREE.Vector3) {
+  return target.set(snoise(x, y, z), snoise(y - 19.1, z + 33.4, x + 47.2), snoise(z + 74.2, x - 124.5, y + 99.4));
+}
+
+const a = new THREE.Vector3();
+const b = new THREE.Vector3();
+
+/**
+ * Divergence-free noise field, matching curlNoise in shaders/noiseChunk.
+ */
+export function curlNoise(p: THREE.Vector3Like, target: THREE.Vector3): THREE.Vector3 {
+  const e = 0.1;
+  snoiseVec3(p.x, p.y + e, p.z, a);
+  snoiseVec3(p.x, p.y - e, p.z, b);
+  const dyZ = a.z - b.z;
+  const dyX = a.x - b.x;
+  snoiseVec3(p.x, p.y, p.z + e, a);
+  snoiseVec3(p.x, p.y, p.z - e, b);
+  const dzY = a.y - b.y;
+  const dzX = a.x - b.x;
+  snoiseVec3(p.x + e, p.y, p.z, a);
+  snoiseVec3(p.x - e, p.y, p.z, b);
+  const dxZ = a.z - b.z;
+  const dxY = a.y - b.y;
+
+  return target.set(dyZ - dzY, dzX - dxZ, dxY - dyX).normalize();
+}
@@ -0,0 +1,99 @@
+// COLLIDER_COUNT is defined by SimulationRenderer.
+export default `
+struct Collider {
+    int kind; // 0: plane, 1: box, 2: sphere, 3: sdf
+    vec3 position;
+    vec3 normal;
+    vec3 halfSize;
+    float radius;
+    float side; // -1 keeps particles inside the shape
+    float bounce;
+    float friction;
+    float enabled;
+};
+
+#if COLLIDER_COUNT > 0
+uniform Collider uColliders[COLLIDER_COUNT];
+#endif
+
+// Signed distance field baked from a mesh, with z slices tiled into a square texture
+uniform sampler2D uSdfTexture;
+uniform vec3 uSdfMin;
+uniform vec3 uSdfMax;
+uniform float uSdfResolution;
+uniform float uSdfTilesPerRow;
+
+float getSdfVoxel(vec3 voxel) {
+    voxel = clamp(voxel, vec3(0.0), vec3(uSdfResolution - 1.0));
+    vec2 tile = vec2(mod(voxel.z, uSdfTilesPerRow), floor(voxel.z / uSdfTilesPerRow));
+    vec2 texel = tile * uSdfResolution + voxel.xy + 0.5;
+    return texture2D(uSdfTexture, texel / (uSdfTilesPerRow * uSdfResolution)).r;
+}
+
+float getSdfDistance(vec3 position) {
+    vec3 extent = uSdfMax - uSdfMin;
+    vec3 voxel = (position - uSdfMin) / extent * uSdfResolution - 0.5;
+    vec3 base = floor(voxel);
+    vec3 f = voxel - base;
+
+    // Trilinear interpolation, float textures are not always filterable
+    float d00 = mix(getSdfVoxel(base), getSdfVoxel(base + vec3(1.0, 0.0, 0.0)), f.x);
+    float d10 = mix(getSdfVoxel(base + vec3(0.0, 1.0, 0.0)), getSdfVoxel(base + vec3(1.0, 1.0, 0.0)), f.x);
+    float d01 = mix(getSdfVoxel(base + vec3(0.0, 0.0, 1.0)), getSdfVoxel(base + vec3(1.0, 0.0, 1.0)), f.x);
+    float d11 = mix(getSdfVoxel(base + vec3(0.0, 1.0, 1.0)), getSdfVoxel(base + vec3(1.0, 1.0, 1.0)), f.x);
+    float d = mix(mix(d00, d10, f.y), mix(d01, d11, f.y), f.z);
+
+    // Outside the baked bounds, add the distance to the bounds
+    vec3 q = abs(position - (uSdfMin + uSdfMax) * 0.5) - extent * 0.5;
+    return d + length(max(q, 0.0));
+}
+
+// Signed distance from the collider surface, negative where particles are not allowed.
+float getColliderDistance(Collider collider, vec3 position) {
+    vec3 offset = position - collider.position;
+    float dist;
+    if (collider.kind == 0) {
+        dist = dot(offset, collider.normal);
+    } else if (collider.kind == 1) {
+        vec3 q = abs(offset) - collider.halfSize;
+        dist = length(max(q, 0.0)) + min(max(q.x, max(q.y, q.z)), 0.0);
+    } else if (collider.kind == 2) {
+        dist = length(offset) - collider.radius;
+    } else {
+        dist = getSdfDistance(offset);
+    }
+    return dist * collider.side;
+}
+
+// Direction out of the collider, from the gradient of the distance.
+vec3 getColliderNormal(Collider collider, vec3 position) {
+    const vec2 e = vec2(0.005, 0.0);
+    vec3 gradient = vec3(
+        getColliderDistance(collider, position + e.xyy) - getColliderDistance(collider, position - e.xyy),
+        getColliderDistance(collider, position + e.yxy) - getColliderDistance(collider, position - e.yxy),
+        getColliderDistance(collider, position + e.yyx) - getColliderDistance(collider, position - e.yyx)
+    );
+    return length(gradient) > 0.0 ? normalize(gradient) : vec3(0.0, 1.0, 0.0);
+}
+
+// Bounces a velocity (units / step) that would carry the particle into the collider, applying friction to the tangential part.
+vec3 collideVelocity(Collider collider, vec3 position, vec3 velocity) {
+    if (collider.enabled < 0.5) return velocity;
+    vec3 nextPosition = position + velocity;
+    if (getColliderDistance(collider, nextPosition) >= 0.0) return velocity;
+
+    vec3 normal = getColliderNormal(collider, nextPosition);
+    float normalSpeed = dot(velocity, normal);
+    if (normalSpeed >= 0.0) return velocity; // already leaving
+    vec3 tangent = velocity - normal * normalSpeed;
+    return tangent * (1.0 - collider.friction) - normal * normalSpeed * collider.bounce;
+}
+
+// Moves a penetrating particle back onto the collider surface.
+vec3 collidePosition(Collider collider, vec3 position) {
+    if (collider.enabled < 0.5) return position;
+    float dist = getColliderDistance(collider, position);
+    if (dist >= 0.0) return position;
+    return position - getColliderNormal(collider, position) * dist;
+}
+`;
@@ -0,0 +1,53 @@
+// Requires noiseChunk. FORCE_FIELD_COUNT is defined by SimulationRenderer.
+export default `
+struct ForceField {
+    int kind; // 0: attractor, 1: vortex, 2: wind, 3: gravity, 4: turbulence
+    vec3 position;
+    vec3 direction;
+    float strength;
+    float radius;
+    int falloff; // 0: none, 1: linear, 2: smooth, 3: inverse-square
+    float frequency;
+    float speed;
+    float enabled;
+};
+
+#if FORCE_FIELD_COUNT > 0
+uniform ForceField uForceFields[FORCE_FIELD_COUNT];
+#endif
+
+float getForceFieldFalloff(int falloff, float dist, float radius) {
+    if (radius <= 0.0) return 1.0;
+    float t = clamp(dist / radius, 0.0, 1.0);
+    if (falloff == 1) return 1.0 - t;
+    if (falloff == 2) return 1.0 - smoothstep(0.0, 1.0, t);
+    if (falloff == 3) return dist < radius ? 1.0 / (1.0 + 25.0 * t * t) : 0.0;
+    return dist < radius ? 1.0 : 0.0;
+}
+
+// Returns the acceleration (units / s^2) the field applies to a particle at the given position.
+vec3 getForceFieldAcceleration(ForceField field, vec3 position, float time) {
+    if (field.enabled < 0.5) return vec3(0.0);
+
+    vec3 offset = position - field.position;
+    float dist = length(offset);
+    vec3 force = vec3(0.0);
+
+    if (field.kind == 0) {
+        force = dist > 0.0001 ? -offset / dist : vec3(0.0);
+    } else if (field.kind == 1) {
+        vec3 axis = normalize(field.direction);
+        vec3 radial = offset - axis * dot(offset, axis);
+        force = length(radial) > 0.0001 ? normalize(cross(axis, radial)) : vec3(0.0);
+    } else if (field.kind == 2) {
+        float gust = 1.0 + 0.5 * snoise(position * field.frequency + vec3(time * field.speed));
+        force = normalize(field.direction) * gust;
+    } else if (field.kind == 3) {
+        force = normalize(field.direction);
+    } else if (field.kind == 4) {
+        force = curlNoise(position * field.frequency + vec3(time * field.speed));
+    }
+
+    return force * field.strength * getForceFieldFalloff(field.falloff, dist, field.radius);
+}
+`;
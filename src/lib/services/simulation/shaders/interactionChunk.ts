@@ -0,0 +1,33 @@
+// Requires forceFieldChunk and uDeltaTime. MAX_INTERACTION_POINTS is defined by SimulationRenderer.
+export default `
+uniform vec4 uInteractionPositions[MAX_INTERACTION_POINTS]; // w > 0 marks an active point
+uniform vec3 uInteractionVelocities[MAX_INTERACTION_POINTS]; // pointer movement, units / s
+uniform vec3 uInteractionViewDirection; // swirl axis
+uniform int uInteractionMode; // 0 repel, 1 attract, 2 swirl, 3 push
+uniform float uInteractionStrength;
+uniform int uInteractionFalloff;
+uniform float uMaxRepelDistance;
+
+// Velocity change (units / step) at strength 1 and full influence, for a 60 Hz step.
+const float INTERACTION_SCALE = 0.01;
+
+// Returns the velocity change a single pointer applies to a particle.
+vec3 getInteractionVelocity(vec4 interactionPosition, vec3 pointerVelocity, vec3 position, vec3 velocity) {
+    vec3 offset = position - interactionPosition.xyz;
+    float dist = length(offset);
+    if (interactionPosition.w <= 0.0 || dist >= uMaxRepelDistance) return vec3(0.0);
+
+    // Scaled by the interaction strength (w) of the point
+    float influence = getForceFieldFalloff(uInteractionFalloff, dist, uMaxRepelDistance) * interactionPosition.w * uInteractionStrength;
+    vec3 direction = offset / max(dist, 0.0001);
+    // Scaled by the steps covered like the traction: squared for accelerations, as an exponent for the blend
+    float steps = uDeltaTime * 60.0;
+    float scale = INTERACTION_SCALE * steps * steps;
+
+    if (uInteractionMode == 1) return -direction * influence * scale;
+    if (uInteractionMode == 2) return cross(uInteractionViewDirection, direction) * influence * scale;
+    // Blend toward the pointer velocity, converted to units / step
+    if (uInteractionMode == 3) return (pointerVelocity * uDeltaTime - velocity) * (1.0 - pow(1.0 - clamp(influence * 0.1, 0.0, 1.0), steps));
+    return direction * influence * scale;
+}
+`;
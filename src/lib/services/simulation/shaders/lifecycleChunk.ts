@@ -0,0 +1,52 @@
+// Lifecycle state: age (seconds) is stored in position.w, lifetime (seconds) in velocity.w.
+// A lifetime of 0 means the particle has not been assigned a lifetime yet.
+// Requires uTime and uDeltaTime.
+export default `
+uniform float uLifecycleEnabled;
+uniform vec2 uLifetime; // min, max (seconds)
+uniform float uBirthRate; // particles per second, 0 = respawn as soon as a particle dies
+uniform int uEmitterType; // 0: point, 1: mesh, 2: target
+uniform vec3 uEmitterPosition;
+uniform float uEmitterRadius;
+uniform sampler2D uEmitterTexture;
+
+float lifecycleHash(vec2 uv, float salt) {
+    return fract(sin(dot(uv + salt, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+float getSpawnLifetime(vec2 uv) {
+    return mix(uLifetime.x, uLifetime.y, lifecycleHash(uv, fract(uTime * 0.618)));
+}
+
+// The emission cursor sweeps over the particle indices at uBirthRate particles per second.
+// A dead particle may only respawn when the cursor passes its index during this step.
+bool isInEmissionSlot() {
+    float count = resolution.x * resolution.y;
+    float index = floor(gl_FragCoord.y) * resolution.x + floor(gl_FragCoord.x);
+    float cursorStart = mod((uTime - uDeltaTime) * uBirthRate, count);
+    float cursorEnd = mod(uTime * uBirthRate, count);
+    if (cursorStart <= cursorEnd) return index >= cursorStart && index < cursorEnd;
+    return index >= cursorStart || index < cursorEnd;
+}
+
+bool shouldRespawn(float age, float lifetime) {
+    if (uLifecycleEnabled < 0.5 || lifetime <= 0.0) return false;
+    if (age + uDeltaTime < lifetime) return false;
+    return uBirthRate <= 0.0 || isInEmissionSlot();
+}
+
+vec3 getEmitterPosition(vec2 uv, vec3 targetPosition) {
+    float salt = fract(uTime * 0.377);
+    if (uEmitterType == 1) {
+        vec2 emitterUV = vec2(lifecycleHash(uv, salt), lifecycleHash(uv, salt + 0.5));
+        return texture2D(uEmitterTexture, emitterUV).xyz;
+    }
+    if (uEmitterType == 2) {
+        return targetPosition;
+    }
+    float theta = lifecycleHash(uv, salt) * 6.2831853;
+    float phi = acos(lifecycleHash(uv, salt + 0.25) * 2.0 - 1.0);
+    float r = uEmitterRadius * pow(lifecycleHash(uv, salt + 0.75), 1.0 / 3.0);
+    return uEmitterPosition + r * vec3(sin(phi) * cos(theta), sin(phi) * sin(theta), cos(phi));
+}
+`;
@@ -1,71 +1,36 @@
+import colliderChunk from './colliderChunk';
+import lifecycleChunk from './lifecycleChunk';
+import noiseChunk from './noiseChunk';
+import targetChunk from './targetChunk';
+
 export default `
-uniform vec4 uInteractionPosition;
+uniform vec4 uInteractionPositions[MAX_INTERACTION_POINTS];
 uniform float uTime;
+uniform float uDeltaTime; // fixed step duration, in seconds
 uniform float uTractionForce;
-uniform sampler2D uPositionAtlas;
-uniform float uOverallProgress; // (0.0 to 1.0)
-uniform int uNumMeshes;
-uniform float uSingleTextureSize;
 
 float rand(vec2 co) {
     return fract(sin(dot(co, vec2(12.9898, 78.233))) * 43758.5453);
 }
 
-// Helper function to get position from atlas
-vec3 getAtlasPosition(vec2 uv, int meshIndex) {
-    float atlasWidth = uSingleTextureSize * float(uNumMeshes);
-    float atlasHeight = uSingleTextureSize; // Assuming height is single texture size
-
-    // Calculate UV within the specific mesh's section of the atlas
-    float segmentWidthRatio = uSingleTextureSize / atlasWidth;
-    vec2 atlasUV = vec2(
-        uv.x * segmentWidthRatio + segmentWidthRatio * float(meshIndex),
-        uv.y // Assuming vertical layout doesn't change y
-    );
+${noiseChunk}
+${targetChunk}
+${lifecycleChunk}
+${colliderChunk}
 
-    return texture2D(uPositionAtlas, atlasUV).xyz;
-}
+// @hook position_header
 
 void main() {
     // GPGPU UV calculation
     vec2 uv = gl_FragCoord.xy / resolution.xy; // resolution is the size of the *output* texture (e.g., 256x256)
 
-    vec3 currentPosition = texture2D(uCurrentPosition, uv).xyz;
-    vec3 currentVelocity = texture2D(uCurrentVelocity, uv).xyz;
-
-    // --- Calculate Target Position from Atlas ---
-    vec3 targetPosition;
-    if (uNumMeshes <= 1) {
-        targetPosition = getAtlasPosition(uv, 0);
-    } else {
-        float totalSegments = float(uNumMeshes - 1);
-        float progressPerSegment = 1.0 / totalSegments;
-        float scaledProgress = uOverallProgress * totalSegments;
-
-        int indexA = int(floor(scaledProgress));
-        // Clamp indexB to avoid going out of bounds
-        int indexB = min(indexA + 1, uNumMeshes - 1);
-
-        // Ensure indexA is also within bounds (important if uOverallProgress is exactly 1.0)
-        indexA = min(indexA, uNumMeshes - 1);
-
-
-        float localProgress = fract(scaledProgress);
-
-        // Handle edge case where progress is exactly 1.0
-        if (uOverallProgress == 1.0) {
-             indexA = uNumMeshes - 1;
-             indexB = uNumMeshes - 1;
-             localProgress = 1.0; // or 0.0 depending on how you want to handle it
-        }
+    vec4 currentPositionData = texture2D(uCurrentPosition, uv);
+    vec4 currentVelocityData = texture2D(uCurrentVelocity, uv);
+    vec3 currentPosition = currentPositionData.xyz;
+    vec3 currentVelocity = currentVelocityData.xyz;
 
-
-        vec3 positionA = getAtlasPosition(uv, indexA);
-        vec3 positionB = getAtlasPosition(uv, indexB);
-
-        targetPosition = mix(positionA, positionB, localProgress);
-    }
-    // --- End Target Position Calculation ---
+    float stagger;
+    vec3 targetPosition = getTargetPosition(uv, stagger);
 
     // Particle attraction to target position
     vec3 direction = normalize(targetPosition - currentPosition);
@@ -73,12 +38,37 @@ void main() {
 
     vec3 finalPosition = currentPosition;
 
-    // Apply attraction force (simplified mix)
+    // Apply attraction force: closes a share of the distance per 60 Hz step, compounded over the steps this one covers
     if (dist > 0.01) { // Only apply if significantly far
-       finalPosition = mix(currentPosition, targetPosition, 0.1 * uTractionForce);
+       float traction = clamp(0.1 * uTractionForce * getStaggerSpeed(stagger), 0.0, 1.0);
+       finalPosition = mix(currentPosition, targetPosition, 1.0 - pow(1.0 - traction, uDeltaTime * 60.0));
     }
 
     finalPosition += currentVelocity;
-    gl_FragColor = vec4(finalPosition, 1.0);
+
+    // @hook position_integrate
+
+    // Resolve collider penetration, e.g. from the traction toward a target inside a collider
+#if COLLIDER_COUNT > 0
+    for (int i = 0; i < COLLIDER_COUNT; i++) {
+        finalPosition = collidePosition(uColliders[i], finalPosition);
+    }
+#endif
+
+    // Lifecycle: the velocity pass makes the same respawn decision from the same inputs
+    float age = currentPositionData.w;
+    float lifetime = currentVelocityData.w;
+    if (uLifecycleEnabled < 0.5) {
+        age = 0.0;
+    } else if (lifetime <= 0.0) {
+        age = rand(uv) * getSpawnLifetime(uv); // spread the first deaths over the lifetime
+    } else if (shouldRespawn(age, lifetime)) {
+        finalPosition = getEmitterPosition(uv, targetPosition);
+        age = 0.0;
+    } else {
+        age += uDeltaTime;
+    }
+
+    gl_FragColor = vec4(finalPosition, age);
 }
 `;
@@ -0,0 +1,132 @@
+// Target position of a particle in the mesh sequence, shared by the velocity and position shaders.
+// Requires rand() and noiseChunk.
+export default `
+uniform sampler2D uPositionAtlas;
+uniform float uOverallProgress; // (0.0 to 1.0)
+uniform int uNumMeshes;
+uniform int uAtlasColumns; // meshes per atlas row, see AtlasLayout
+uniform float uSingleTextureSize;
+uniform sampler2D uNormalAtlas; // baked surface normals, laid out like uPositionAtlas
+uniform sampler2D uColorAtlas; // baked surface colors, laid out like uPositionAtlas
+
+// Staggered arrivals, see StaggerOptions
+uniform int uStaggerMode; // 0: none, 1: random, 2: distance, 3: axis, 4: texture
+uniform float uStaggerDelay; // fraction of a transition over which departures are spread
+uniform float uStaggerSpeed; // traction multiplier at stagger value 1
+uniform float uStaggerInvert;
+uniform vec3 uStaggerOrigin;
+uniform vec3 uStaggerAxis;
+uniform vec2 uStaggerRange;
+uniform sampler2D uStaggerTexture;
+
+// Morph paths, see MorphPath
+uniform int uPathMode; // 0: linear, 1: arc, 2: spiral, 3: scatter, 4: noise
+uniform float uPathAmplitude;
+uniform vec3 uPathAxis;
+uniform float uPathFrequency;
+
+// Calculate UV within the specific mesh's cell of the atlas. The cells fill rows of uAtlasColumns from the bottom left.
+vec2 getAtlasUv(vec2 uv, int meshIndex) {
+    int row = meshIndex / uAtlasColumns;
+    int column = meshIndex - row * uAtlasColumns;
+    float rows = float((uNumMeshes + uAtlasColumns - 1) / uAtlasColumns);
+    return vec2((uv.x + float(column)) / float(uAtlasColumns), (uv.y + float(row)) / rows);
+}
+
+// Helper function to get position from atlas
+vec3 getAtlasPosition(vec2 uv, int meshIndex) {
+    return texture2D(uPositionAtlas, getAtlasUv(uv, meshIndex)).xyz;
+}
+
+// Surface normal at the target, zero for targets inside the mesh
+vec3 getAtlasNormal(vec2 uv, int meshIndex) {
+    return texture2D(uNormalAtlas, getAtlasUv(uv, meshIndex)).xyz;
+}
+
+vec3 getAtlasColor(vec2 uv, int meshIndex) {
+    return texture2D(uColorAtlas, getAtlasUv(uv, meshIndex)).rgb;
+}
+
+// Orders the particle within a transition, between 0 (first to move) and 1 (last).
+float getStaggerValue(vec2 uv, vec3 position) {
+    float value;
+    if (uStaggerMode == 1) {
+        value = rand(uv + 0.37);
+    } else if (uStaggerMode == 2) {
+        value = length(position - uStaggerOrigin);
+    } else if (uStaggerMode == 3) {
+        value = dot(position, uStaggerAxis);
+    } else if (uStaggerMode == 4) {
+        value = texture2D(uStaggerTexture, uv).r;
+    } else {
+        return 0.0;
+    }
+    if (uStaggerMode == 2 || uStaggerMode == 3) {
+        value = (value - uStaggerRange.x) / max(uStaggerRange.y - uStaggerRange.x, 0.0001);
+    }
+    value = clamp(value, 0.0, 1.0);
+    return uStaggerInvert > 0.5 ? 1.0 - value : value;
+}
+
+float getStaggerSpeed(float stagger) {
+    return mix(1.0, uStaggerSpeed, stagger);
+}
+
+vec3 rotateAroundAxis(vec3 v, vec3 axis, float angle) {
+    return v * cos(angle) + cross(axis, v) * sin(angle) + axis * dot(axis, v) * (1.0 - cos(angle));
+}
+
+// Moves a point of the straight path between two meshes onto the curved path. The displacement vanishes at both ends.
+vec3 getPathPosition(vec2 uv, vec3 position, float progress) {
+    float envelope = sin(progress * 3.14159265);
+    if (uPathMode == 1) {
+        vec3 outward = length(position) > 0.0001 ? normalize(position) : vec3(0.0, 1.0, 0.0);
+        return position + outward * uPathAmplitude * envelope;
+    } else if (uPathMode == 2) {
+        vec3 rotated = rotateAroundAxis(position, uPathAxis, progress * 6.2831853 * uPathAmplitude);
+        return mix(position, rotated, envelope);
+    } else if (uPathMode == 3) {
+        // A random point in a ball, so the cloud is filled rather than a shell
+        float theta = rand(uv + 0.11) * 6.2831853;
+        float cosPhi = rand(uv + 0.23) * 2.0 - 1.0;
+        float sinPhi = sqrt(1.0 - cosPhi * cosPhi);
+        float radius = pow(rand(uv + 0.59), 1.0 / 3.0);
+        vec3 direction = vec3(sinPhi * cos(theta), sinPhi * sin(theta), cosPhi);
+        return position + direction * radius * uPathAmplitude * envelope;
+    } else if (uPathMode == 4) {
+        return position + snoiseVec3(position * uPathFrequency) * uPathAmplitude * envelope;
+    }
+    return position;
+}
+
+// Interpolates between the meshes of the sequence. stagger receives the stagger value of the particle.
+vec3 getTargetPosition(vec2 uv, out float stagger) {
+    if (uNumMeshes <= 1) {
+        vec3 position = getAtlasPosition(uv, 0);
+        stagger = getStaggerValue(uv, position);
+        return position;
+    }
+
+    float scaledProgress = uOverallProgress * float(uNumMeshes - 1);
+    // Clamp the indices to avoid going out of bounds
+    int indexA = min(int(floor(scaledProgress)), uNumMeshes - 1);
+    int indexB = min(indexA + 1, uNumMeshes - 1);
+    float localProgress = fract(scaledProgress);
+
+    // Handle edge case where progress is exactly 1.0
+    if (uOverallProgress == 1.0) {
+        indexA = uNumMeshes - 1;
+        indexB = uNumMeshes - 1;
+        localProgress = 1.0;
+    }
+
+    vec3 positionA = getAtlasPosition(uv, indexA);
+    vec3 positionB = getAtlasPosition(uv, indexB);
+
+    // Later particles leave later, but every particle arrives by the end of the transition
+    stagger = getStaggerValue(uv, positionA);
+    localProgress = clamp((localProgress - stagger * uStaggerDelay) / (1.0 - uStaggerDelay), 0.0, 1.0);
+
+    return getPathPosition(uv, mix(positionA, positionB, localProgress), localProgress);
+}
+`;
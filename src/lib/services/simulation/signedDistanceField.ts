@@ -0,0 +1,168 @@
+import { RandomFunction } from '@/lib/types';
+import * as THREE from 'three';
+import { MeshSurfaceSampler } from 'three/examples/jsm/math/MeshSurfaceSampler.js';
+
+/**
+ * A signed distance field baked from a mesh, negative inside.
+ * The voxel slices along z are tiled into a square 2D texture, so it also works on WebGL1.
+ */
+export type SignedDistanceField = {
+  texture: THREE.DataTexture;
+  min: THREE.Vector3; // bounds of the field in simulation space
+  max: THREE.Vector3;
+  resolution: number; // voxels along each axis
+  tilesPerRow: number;
+};
+
+/**
+ * Bakes a signed distance field from a closed mesh, in the same space as the sampled particle positions.
+ * Distances are measured to surface samples, and the sign comes from ray parity along z.
+ * @param mesh The mesh to bake. It should be watertight for the sign to be reliable.
+ * @param resolution The number of voxels along each axis.
+ * @param random The random function used for surface sampling.
+ * @returns The baked field.
+ */
+export function bakeSignedDistanceField(mesh: THREE.Mesh, resolution: number = 32, random: RandomFunction = Math.random): SignedDistanceField {
+  const geometry = mesh.geometry.clone();
+  geometry.scale(mesh.scale.x, mesh.scale.y, mesh.scale.z); // matches sampleMesh
+  geometry.computeBoundingBox();
+
+  const bounds = geometry.boundingBox!.clone();
+  const padding = bounds.getSize(new THREE.Vector3()).multiplyScalar(0.1).addScalar(0.01);
+  bounds.min.sub(padding);
+  bounds.max.add(padding);
+  const voxelSize = bounds.getSize(new THREE.Vector3()).divideScalar(resolution);
+
+  const bakeMesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ side: THREE.DoubleSide }));
+  const voxelCount = resolution * resolution * resolution;
+  const distances = computeUnsignedDistances(bakeMesh, bounds.min, voxelSize, resolution, random);
+  const inside = computeInsideVoxels(bakeMesh, bounds.min, voxelSize, resolution);
+
+  const tilesPerRow = Math.ceil(Math.sqrt(resolution));
+  const textureSize = tilesPerRow * resolution;
+  const data = new Float32Array(textureSize * textureSize * 4);
+  for (let index = 0; index < voxelCount; index++) {
+    const x = index % resolution;
+    const y = Math.floor(index / resolution) % resolution;
+    const z = Math.floor(index / (resolution * resolution));
+    const u = (z % tilesPerRow) * resolution + x;
+    const v = Math.floor(z / tilesPerRow) * resolution + y;
+    data[(v * textureSize + u) * 4] = inside[index] ? -distances[index] : distances[index];
+  }
+
+  geometry.dispose();
+  (bakeMesh.material as THREE.Material).dispose();
+
+  const texture = new THREE.DataTexture(data, textureSize, textureSize, THREE.RGBAFormat, THREE.FloatType);
+  texture.minFilter = THREE.NearestFilter; // interpolated in the shader, float linear filtering is optional in WebGL
+  texture.magFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  texture.name = `sdf-${mesh.name}`;
+
+  return { texture, min: bounds.min, max: bounds.max, resolution, tilesPerRow };
+}
+
+function voxelCenter(min: THREE.Vector3, voxelSize: THREE.Vector3, x: number, y: number, z: number, target: THREE.Vector3) {
+  return target.set(min.x + (x + 0.5) * voxelSize.x, min.y + (y + 0.5) * voxelSize.y, min.z + (z + 0.5) * voxelSize.z);
+}
+
+/**
+ * Finds the distance from each voxel center to the nearest surface sample, using jump flooding.
+ */
+function computeUnsignedDistances(mesh: THREE.Mesh, min: THREE.Vector3, voxelSize: THREE.Vector3, resolution: number, random: RandomFunction) {
+  const voxelCount = resolution * resolution * resolution;
+  const sampleCount = resolution * resolution * 8;
+  const samples = new Float32Array(sampleCount * 3);
+  const nearest = new Int32Array(voxelCount).fill(-1);
+  const center = new THREE.Vector3();
+  const point = new THREE.Vector3();
+
+  // setRandomGenerator is available at runtime but missing from @types/three.
+  const sampler = new MeshSurfaceSampler(mesh) as MeshSurfaceSampler & { setRandomGenerator(random: RandomFunction): MeshSurfaceSampler };
+  sampler.setRandomGenerator(random).build();
+
+  const distanceTo = (voxel: number, sample: number) => {
+    const x = voxel % resolution;
+    const y = Math.floor(voxel / resolution) % resolution;
+    const z = Math.floor(voxel / (resolution * resolution));
+    voxelCenter(min, voxelSize, x, y, z, center);
+    return center.distanceTo(point.fromArray(samples, sample * 3));
+  };
+
+  // Seed every voxel that contains a surface sample
+  for (let sample = 0; sample < sampleCount; sample++) {
+    sampler.sample(point);
+    point.toArray(samples, sample * 3);
+    const x = THREE.MathUtils.clamp(Math.floor((point.x - min.x) / voxelSize.x), 0, resolution - 1);
+    const y = THREE.MathUtils.clamp(Math.floor((point.y - min.y) / voxelSize.y), 0, resolution - 1);
+    const z = THREE.MathUtils.clamp(Math.floor((point.z - min.z) / voxelSize.z), 0, resolution - 1);
+    const voxel = (z * resolution + y) * resolution + x;
+    if (nearest[voxel] < 0 || distanceTo(voxel, sample) < distanceTo(voxel, nearest[voxel])) nearest[voxel] = sample;
+  }
+
+  // Propagate the nearest samples with decreasing step sizes
+  for (let step = Math.max(1, resolution >> 1); step >= 1; step >>= 1) {
+    for (let voxel = 0; voxel < voxelCount; voxel++) {
+      const x = voxel % resolution;
+      const y = Math.floor(voxel / resolution) % resolution;
+      const z = Math.floor(voxel / (resolution * resolution));
+      let best = nearest[voxel];
+      let bestDistance = best < 0 ? Infinity : distanceTo(voxel, best);
+      for (let dz = -step; dz <= step; dz += step) {
+        for (let dy = -step; dy <= step; dy += step) {
+          for (let dx = -step; dx <= step; dx += step) {
+            const nx = x + dx;
+            const ny = y + dy;
+            const nz = z + dz;
+            if (nx < 0 || ny < 0 || nz < 0 || nx >= resolution || ny >= resolution || nz >= resolution) continue;
+            const candidate = nearest[(nz * resolution + ny) * resolution + nx];
+            if (candidate < 0 || candidate === best) continue;
+            const candidateDistance = distanceTo(voxel, candidate);
+            if (candidateDistance < bestDistance) {
+              best = candidate;
+              bestDistance = candidateDistance;
+            }
+          }
+        }
+      }
+      nearest[voxel] = best;
+    }
+  }
+
+  const distances = new Float32Array(voxelCount);
+  for (let voxel = 0; voxel < voxelCount; voxel++) {
+    distances[voxel] = nearest[voxel] < 0 ? 0 : distanceTo(voxel, nearest[voxel]);
+  }
+  return distances;
+}
+
+/**
+ * Marks the voxels inside the mesh by counting surface crossings along a ray through each column.
+ */
+function computeInsideVoxels(mesh: THREE.Mesh, min: THREE.Vector3, voxelSize: THREE.Vector3, resolution: number) {
+  const inside = new Uint8Array(resolution * resolution * resolution);
+  const raycaster = new THREE.Raycaster();
+  const origin = new THREE.Vector3();
+  const direction = new THREE.Vector3(0, 0, 1);
+
+  for (let y = 0; y < resolution; y++) {
+    for (let x = 0; x < resolution; x++) {
+      voxelCenter(min, voxelSize, x, y, 0, origin);
+      origin.z = min.z - voxelSize.z;
+      raycaster.set(origin, direction);
+      // Hits on shared edges are reported once per triangle, so drop duplicates
+      const crossings: number[] = [];
+      for (const hit of raycaster.intersectObject(mesh, false)) {
+        if (crossings.length === 0 || hit.point.z - crossings[crossings.length - 1] > 1e-5) crossings.push(hit.point.z);
+      }
+
+      let crossed = 0;
+      for (let z = 0; z < resolution; z++) {
+        const centerZ = min.z + (z + 0.5) * voxelSize.z;
+        while (crossed < crossings.length && crossings[crossed] < centerZ) crossed++;
+        inside[(z * resolution + y) * resolution + x] = crossed % 2;
+      }
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,87 @@
+import {
+  Collider,
+  ForceField,
+  ForceFieldFalloff,
+  InteractionMode,
+  LifecycleOptions,
+  MorphPath,
+  ParticleReadback,
+  ParticleRect,
+  ShaderHooks,
+  SimulationState,
+  StaggerOptions,
+} from '@/lib/types';
+import * as THREE from 'three';
+import { SignedDistanceField } from './signedDistanceField';
+
+/**
+ * The maximum number of simultaneous interaction points, e.g. touches, consumed by the simulation.
+ */
+export const MAX_INTERACTION_POINTS = 10;
+
+export type PositionAtlasEntry = {
+  dataTexture: THREE.DataTexture;
+  numMeshes: number;
+  singleTextureSize: number;
+  atlasColumns: number; // meshes per row of the atlas, which wraps into more rows on GPUs with a small maximum texture size, see AtlasLayout
+  textureSize: number; // Size of the GPGPU output texture
+  normalTexture?: THREE.DataTexture; // baked surface normals, laid out like dataTexture
+  colorTexture?: THREE.DataTexture; // baked surface colors, laid out like dataTexture
+};
+
+/**
+ * Runs the particle simulation. Positions and velocities are exposed as textures that the InstancedMeshManager reads.
+ * Position textures hold the age of a particle in w, velocity textures its lifetime.
+ */
+export interface SimulationBackend {
+  setPositionAtlas(entry: PositionAtlasEntry): void;
+  setOverallProgress(progress: number): void;
+  setMaxRepelDistance(distance: number): void;
+  setInteractionMode(mode: InteractionMode): void;
+  setInteractionStrength(strength: number): void;
+  setInteractionFalloff(falloff: ForceFieldFalloff): void;
+  setInteractionViewDirection(direction: THREE.Vector3Like): void;
+  setInteractionPosition(position: THREE.Vector4Like): void;
+  setInteractionPositions(positions: THREE.Vector4Like[], velocities?: THREE.Vector3Like[]): void;
+  setVelocityTractionForce(force: number): void;
+  setPositionalTractionForce(force: number): void;
+  setForceFields(fields: ForceField[]): void;
+  setColliders(colliders: Collider[], sdf?: SignedDistanceField): void;
+  setLifecycle(options: LifecycleOptions, emitterTexture?: THREE.Texture | null): void;
+  /**
+   * Sets the arrival order of particles during mesh sequence transitions.
+   * @param options The stagger options, with the range of the distance and axis modes resolved.
+   */
+  setStagger(options: StaggerOptions): void;
+  /**
+   * Sets the path particles take between the meshes of the sequence.
+   * @param path The morph path.
+   */
+  setMorphPath(path: MorphPath): void;
+  /**
+   * Sets the custom GLSL hooks of the simulation shaders.
+   * @param hooks The hooks, or undefined to remove all hooks.
+   * @returns The names of the hook uniforms that clash with built-in uniforms and are ignored.
+   */
+  setShaderHooks(hooks?: ShaderHooks): string[];
+  /**
+   * Advances the simulation by a single step.
+   * @param deltaTime The duration of the step, in seconds.
+   */
+  compute(deltaTime: number): void;
+  /**
+   * Copies the current positions and velocities into typed arrays.
+   * @param rect The region to read, within the texture.
+   */
+  readParticles(rect: ParticleRect): Promise<ParticleReadback>;
+  /**
+   * Replaces the positions, velocities and time of the simulation.
+   * @param state The state to restore. Its texture size must match the backend.
+   */
+  restoreState(state: SimulationState): void;
+  /** Gets the simulation time in seconds. */
+  getTime(): number;
+  getPositionTexture(): THREE.Texture;
+  getVelocityTexture(): THREE.Texture;
+  dispose(): void;
+}
@@ -1,27 +1,43 @@
 // --- START OF FILE simulationRenderer.ts ---
 
-import { clamp, createBlankDataTexture, createSpherePoints } from '@/lib/utils';
+import { applyShaderHookUniforms, injectShaderHooks } from '@/lib/shaderHooks';
+import {
+  Collider,
+  ForceField,
+  ForceFieldFalloff,
+  InteractionMode,
+  LifecycleOptions,
+  MorphPath,
+  ParticleReadback,
+  ParticleRect,
+  ShaderHooks,
+  SimulationState,
+  StaggerOptions,
+} from '@/lib/types';
+import { clamp, createBlankDataTexture, createDataTexture, createSpherePoints } from '@/lib/utils';
 import * as THREE from 'three';
 import { GPUComputationRenderer, Variable } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { ColliderUniform, createColliderUniform, updateColliderUniform } from './colliders';
+import { createForceFieldUniform, FORCE_FIELD_FALLOFFS, ForceFieldUniform, updateForceFieldUniform } from './forceFields';
+import { createMorphPathUniform, updateMorphPathUniform } from './morphPath';
 // import mixShader from './shaders/simulationMixShader'; // Assuming unused
 import positionShader from './shaders/simulationPositionShader';
 import velocityShader from './shaders/simulationVelocityShader';
+import { SignedDistanceField } from './signedDistanceField';
+import { MAX_INTERACTION_POINTS, PositionAtlasEntry, SimulationBackend } from './simulationBackend';
+import { createStaggerUniform, updateStaggerUniform } from './stagger';
 
-export type PositionAtlasEntry = {
-  dataTexture: THREE.DataTexture;
-  numMeshes: number;
-  singleTextureSize: number;
-  textureSize: number; // Size of the GPGPU output texture
-};
+const INTERACTION_MODES: Record<InteractionMode, number> = { repel: 0, attract: 1, swirl: 2, push: 3 };
 
 /**
  * SimulationRenderer is responsible for running the particle simulation using the GPU.
  */
-export class SimulationRenderer {
+export class SimulationRenderer implements SimulationBackend {
   gpuComputationRenderer: GPUComputationRenderer;
   webGLRenderer: THREE.WebGLRenderer;
 
   // GPGPU Variables
+  private readonly size: number;
   private readonly velocityVar: Variable;
   private readonly positionVar: Variable;
 
@@ -31,7 +47,58 @@ export class SimulationRenderer {
   private positionAtlasTexture: THREE.Texture | null = null; // Holds the current mesh sequence atlas
 
   // Uniforms
-  readonly interactionPosition: THREE.Vector4;
+  readonly interactionPositions: THREE.Vector4[];
+  readonly interactionVelocities: THREE.Vector3[];
+
+  private shaderHooks?: ShaderHooks;
+
+  // Shared by the velocity and position shaders, which must make the same respawn decisions
+  private readonly lifecycleUniforms = {
+    uLifecycleEnabled: { value: 0 },
+    uLifetime: { value: new THREE.Vector2(2, 4) },
+    uBirthRate: { value: 0 },
+    uEmitterType: { value: 2 },
+    uEmitterPosition: { value: new THREE.Vector3() },
+    uEmitterRadius: { value: 0 },
+    uEmitterTexture: { value: null as THREE.Texture | null },
+  };
+
+  // Shared by the velocity and position shaders: velocity bounces, position resolves penetration
+  private readonly colliderUniforms = {
+    uColliders: { value: [] as ColliderUniform[] },
+    uSdfTexture: { value: null as THREE.Texture | null },
+    uSdfMin: { value: new THREE.Vector3() },
+    uSdfMax: { value: new THREE.Vector3(1, 1, 1) },
+    uSdfResolution: { value: 1 },
+    uSdfTilesPerRow: { value: 1 },
+  };
+
+  // Shared by the velocity and position shaders, which must compute the same targets
+  private readonly stagger = createStaggerUniform();
+  private readonly staggerUniforms = {
+    uStaggerMode: { value: 0 },
+    uStaggerDelay: { value: 0 },
+    uStaggerSpeed: { value: 1 },
+    uStaggerInvert: { value: 0 },
+    uStaggerOrigin: { value: this.stagger.origin },
+    uStaggerAxis: { value: this.stagger.axis },
+    uStaggerRange: { value: this.stagger.range },
+    uStaggerTexture: { value: null as THREE.Texture | null },
+  };
+
+  private readonly morphPath = createMorphPathUniform();
+  private readonly morphPathUniforms = {
+    uPathMode: { value: 0 },
+    uPathAmplitude: { value: 1 },
+    uPathAxis: { value: this.morphPath.axis },
+    uPathFrequency: { value: 1 },
+  };
+
+  // Baked surface of the mesh sequence, for shader hooks
+  private readonly surfaceAtlasUniforms = {
+    uNormalAtlas: { value: null as THREE.Texture | null },
+    uColorAtlas: { value: null as THREE.Texture | null },
+  };
 
   // Cache last known output textures
   private lastKnownPositionDataTexture: THREE.Texture;
@@ -45,6 +112,7 @@ export class SimulationRenderer {
    */
   constructor(size: number, webGLRenderer: THREE.WebGLRenderer, initialPosition?: THREE.DataTexture) {
     this.webGLRenderer = webGLRenderer;
+    this.size = size;
     this.gpuComputationRenderer = new GPUComputationRenderer(size, size, this.webGLRenderer);
 
     // Set data type (important for precision)
@@ -57,34 +125,66 @@ export class SimulationRenderer {
     // Create initial data textures that will be passed to GPGPU variables
     this.initialPositionDataTexture = initialPosition ?? createSpherePoints(size);
     this.initialVelocityDataTexture = createBlankDataTexture(size);
-    this.interactionPosition = new THREE.Vector4(0, 0, 0, 0);
+    this.interactionPositions = Array.from({ length: MAX_INTERACTION_POINTS }, () => new THREE.Vector4(0, 0, 0, 0));
+    this.interactionVelocities = Array.from({ length: MAX_INTERACTION_POINTS }, () => new THREE.Vector3());
 
     // Initialize GPGPU variables with the initial data textures
-    this.velocityVar = this.gpuComputationRenderer.addVariable('uCurrentVelocity', velocityShader, this.initialVelocityDataTexture);
-    this.positionVar = this.gpuComputationRenderer.addVariable('uCurrentPosition', positionShader, this.initialPositionDataTexture);
+    this.velocityVar = this.gpuComputationRenderer.addVariable('uCurrentVelocity', injectShaderHooks(velocityShader), this.initialVelocityDataTexture);
+    this.positionVar = this.gpuComputationRenderer.addVariable('uCurrentPosition', injectShaderHooks(positionShader), this.initialPositionDataTexture);
 
     // --- Configure Uniforms ---
     // Velocity Shader Uniforms
     this.velocityVar.material.uniforms.uTime = { value: 0 };
-    this.velocityVar.material.uniforms.uInteractionPosition = { value: this.interactionPosition };
+    this.velocityVar.material.uniforms.uDeltaTime = { value: 0 };
+    this.velocityVar.material.uniforms.uInteractionPositions = { value: this.interactionPositions };
+    this.velocityVar.material.uniforms.uInteractionVelocities = { value: this.interactionVelocities };
+    this.velocityVar.material.uniforms.uInteractionViewDirection = { value: new THREE.Vector3(0, 0, -1) };
+    this.velocityVar.material.uniforms.uInteractionMode = { value: INTERACTION_MODES.repel };
+    this.velocityVar.material.uniforms.uInteractionStrength = { value: 1 };
+    this.velocityVar.material.uniforms.uInteractionFalloff = { value: FORCE_FIELD_FALLOFFS.smooth };
+    this.velocityVar.material.defines.MAX_INTERACTION_POINTS = MAX_INTERACTION_POINTS;
     this.velocityVar.material.uniforms.uCurrentPosition = { value: null }; // Dependency
     this.velocityVar.material.uniforms.uTractionForce = { value: 0.1 };
     this.velocityVar.material.uniforms.uMaxRepelDistance = { value: 0.3 };
     this.velocityVar.material.uniforms.uPositionAtlas = { value: null }; // Will be set by setPositionAtlas or initially below
     this.velocityVar.material.uniforms.uOverallProgress = { value: 0.0 };
     this.velocityVar.material.uniforms.uNumMeshes = { value: 1 }; // Start with 1 (for initial texture)
+    this.velocityVar.material.uniforms.uAtlasColumns = { value: 1 };
     this.velocityVar.material.uniforms.uSingleTextureSize = { value: size }; // Current GPGPU size
+    this.velocityVar.material.uniforms.uForceFields = { value: [] };
+    this.velocityVar.material.defines.FORCE_FIELD_COUNT = 0;
+    Object.assign(
+      this.velocityVar.material.uniforms,
+      this.lifecycleUniforms,
+      this.colliderUniforms,
+      this.staggerUniforms,
+      this.morphPathUniforms,
+      this.surfaceAtlasUniforms,
+    );
+    this.velocityVar.material.defines.COLLIDER_COUNT = 0;
 
     // Position Shader Uniforms
     this.positionVar.material.uniforms.uTime = { value: 0 };
+    this.positionVar.material.uniforms.uDeltaTime = { value: 0 };
     this.positionVar.material.uniforms.uTractionForce = { value: 0.1 };
-    this.positionVar.material.uniforms.uInteractionPosition = { value: this.interactionPosition };
+    this.positionVar.material.uniforms.uInteractionPositions = { value: this.interactionPositions };
+    this.positionVar.material.defines.MAX_INTERACTION_POINTS = MAX_INTERACTION_POINTS;
     this.positionVar.material.uniforms.uCurrentPosition = { value: null }; // Dependency
     this.positionVar.material.uniforms.uCurrentVelocity = { value: null }; // Dependency
     this.positionVar.material.uniforms.uPositionAtlas = { value: null }; // Will be set by setPositionAtlas or initially below
     this.positionVar.material.uniforms.uOverallProgress = { value: 0.0 };
     this.positionVar.material.uniforms.uNumMeshes = { value: 1 }; // Start with 1
+    this.positionVar.material.uniforms.uAtlasColumns = { value: 1 };
     this.positionVar.material.uniforms.uSingleTextureSize = { value: size }; // Current GPGPU size
+    Object.assign(
+      this.positionVar.material.uniforms,
+      this.lifecycleUniforms,
+      this.colliderUniforms,
+      this.staggerUniforms,
+      this.morphPathUniforms,
+      this.surfaceAtlasUniforms,
+    );
+    this.positionVar.material.defines.COLLIDER_COUNT = 0;
 
     // --- Set Dependencies ---
     this.gpuComputationRenderer.setVariableDependencies(this.positionVar, [this.positionVar, this.velocityVar]);
@@ -101,6 +201,8 @@ export class SimulationRenderer {
     // Ensure numMeshes and size reflect this initial single texture state
     this.positionVar.material.uniforms.uNumMeshes.value = 1;
     this.velocityVar.material.uniforms.uNumMeshes.value = 1;
+    this.positionVar.material.uniforms.uAtlasColumns.value = 1;
+    this.velocityVar.material.uniforms.uAtlasColumns.value = 1;
     this.positionVar.material.uniforms.uSingleTextureSize.value = size;
     this.velocityVar.material.uniforms.uSingleTextureSize.value = size;
     // Set initial texture dependencies correctly
@@ -118,10 +220,12 @@ export class SimulationRenderer {
    */
   setPositionAtlas(entry: PositionAtlasEntry) {
     // Validate texture dimensions (optional but good practice)
-    const expectedAtlasWidth = entry.singleTextureSize * entry.numMeshes;
-    if (entry.dataTexture.image.width !== expectedAtlasWidth || entry.dataTexture.image.height !== entry.singleTextureSize) {
+    const atlasColumns = Math.max(1, entry.atlasColumns);
+    const expectedAtlasWidth = entry.singleTextureSize * atlasColumns;
+    const expectedAtlasHeight = entry.singleTextureSize * Math.ceil(entry.numMeshes / atlasColumns);
+    if (entry.dataTexture.image.width !== expectedAtlasWidth || entry.dataTexture.image.height !== expectedAtlasHeight) {
       console.error(
-        `SimulationRenderer: Atlas texture dimension mismatch! Expected ${expectedAtlasWidth}x${entry.singleTextureSize}, Got ${entry.dataTexture.image.width}x${entry.dataTexture.image.height}`,
+        `SimulationRenderer: Atlas texture dimension mismatch! Expected ${expectedAtlasWidth}x${expectedAtlasHeight}, Got ${entry.dataTexture.image.width}x${entry.dataTexture.image.height}`,
       );
     }
 
@@ -131,11 +235,15 @@ export class SimulationRenderer {
     // Update uniforms that depend on the atlas
     this.positionVar.material.uniforms.uPositionAtlas.value = this.positionAtlasTexture;
     this.positionVar.material.uniforms.uNumMeshes.value = numMeshes;
+    this.positionVar.material.uniforms.uAtlasColumns.value = atlasColumns;
     this.positionVar.material.uniforms.uSingleTextureSize.value = entry.singleTextureSize; // The size of one mesh's data within the atlas
 
     this.velocityVar.material.uniforms.uPositionAtlas.value = this.positionAtlasTexture;
     this.velocityVar.material.uniforms.uNumMeshes.value = numMeshes;
+    this.velocityVar.material.uniforms.uAtlasColumns.value = atlasColumns;
     this.velocityVar.material.uniforms.uSingleTextureSize.value = entry.singleTextureSize;
+    this.surfaceAtlasUniforms.uNormalAtlas.value = entry.normalTexture ?? null;
+    this.surfaceAtlasUniforms.uColorAtlas.value = entry.colorTexture ?? null;
 
     // IMPORTANT: Ensure texture dependencies are updated.
     // The GPGPU library handles the ping-pong swap. We just need to tell
@@ -161,6 +269,25 @@ export class SimulationRenderer {
     this.velocityVar.material.uniforms.uMaxRepelDistance.value = distance;
   }
 
+  setInteractionMode(mode: InteractionMode) {
+    this.velocityVar.material.uniforms.uInteractionMode.value = INTERACTION_MODES[mode];
+  }
+
+  setInteractionStrength(strength: number) {
+    this.velocityVar.material.uniforms.uInteractionStrength.value = strength;
+  }
+
+  setInteractionFalloff(falloff: ForceFieldFalloff) {
+    this.velocityVar.material.uniforms.uInteractionFalloff.value = FORCE_FIELD_FALLOFFS[falloff];
+  }
+
+  /**
+   * Sets the camera direction in simulation space, used as the swirl axis.
+   */
+  setInteractionViewDirection(direction: THREE.Vector3Like) {
+    this.velocityVar.material.uniforms.uInteractionViewDirection.value.copy(direction);
+  }
+
   setVelocityTractionForce(force: number) {
     this.velocityVar.material.uniforms.uTractionForce.value = force;
   }
@@ -169,9 +296,134 @@ export class SimulationRenderer {
     this.positionVar.material.uniforms.uTractionForce.value = force;
   }
 
+  /**
+   * Sets the force fields applied in the velocity pass.
+   * Changing the number of fields recompiles the velocity shader; changing parameters only updates uniforms.
+   * @param fields The force fields.
+   */
+  setForceFields(fields: ForceField[]) {
+    const material = this.velocityVar.material;
+    const uniforms: ForceFieldUniform[] = material.uniforms.uForceFields.value;
+
+    if (uniforms.length !== fields.length) {
+      material.uniforms.uForceFields.value = fields.map(createForceFieldUniform);
+      material.defines.FORCE_FIELD_COUNT = fields.length;
+      material.needsUpdate = true;
+      return;
+    }
+
+    fields.forEach((field, index) => updateForceFieldUniform(uniforms[index], field));
+  }
+
+  /**
+   * Sets the colliders. Changing the number of colliders recompiles the velocity and position shaders.
+   * @param colliders The colliders.
+   * @param sdf The baked field used by the sdf collider, if any.
+   */
+  setColliders(colliders: Collider[], sdf?: SignedDistanceField) {
+    const uniforms = this.colliderUniforms;
+    uniforms.uSdfTexture.value = sdf?.texture ?? null;
+    if (sdf) {
+      uniforms.uSdfMin.value.copy(sdf.min);
+      uniforms.uSdfMax.value.copy(sdf.max);
+      uniforms.uSdfResolution.value = sdf.resolution;
+      uniforms.uSdfTilesPerRow.value = sdf.tilesPerRow;
+    }
+
+    if (uniforms.uColliders.value.length !== colliders.length) {
+      // The uniform objects are shared, so both materials see the new array
+      uniforms.uColliders.value = colliders.map(createColliderUniform);
+      for (const material of [this.velocityVar.material, this.positionVar.material]) {
+        material.defines.COLLIDER_COUNT = colliders.length;
+        material.needsUpdate = true;
+      }
+      return;
+    }
+
+    colliders.forEach((collider, index) => updateColliderUniform(uniforms.uColliders.value[index], collider));
+  }
+
+  /**
+   * Sets the particle lifecycle parameters.
+   * @param options The lifecycle options.
+   * @param emitterTexture The sampled surface of the emitter mesh, required for mesh emitters.
+   */
+  setLifecycle(options: LifecycleOptions, emitterTexture: THREE.Texture | null = null) {
+    const uniforms = this.lifecycleUniforms;
+    const { emitter } = options;
+    uniforms.uLifecycleEnabled.value = options.enabled ? 1 : 0;
+    uniforms.uLifetime.value.set(Math.max(0.001, options.lifetime[0]), Math.max(0.001, options.lifetime[1]));
+    uniforms.uBirthRate.value = Math.max(0, options.birthRate);
+    uniforms.uEmitterTexture.value = emitterTexture;
+    if (emitter.type === 'point') {
+      uniforms.uEmitterType.value = 0;
+      uniforms.uEmitterPosition.value.copy(emitter.position);
+      uniforms.uEmitterRadius.value = emitter.radius ?? 0;
+    } else if (emitter.type === 'mesh' && emitterTexture) {
+      uniforms.uEmitterType.value = 1;
+    } else {
+      uniforms.uEmitterType.value = 2;
+    }
+  }
+
+  /**
+   * Sets the arrival order of particles during mesh sequence transitions.
+   * @param options The stagger options, with the range of the distance and axis modes resolved.
+   */
+  setStagger(options: StaggerOptions) {
+    const uniforms = this.staggerUniforms;
+    updateStaggerUniform(this.stagger, options); // origin, axis and range are shared with the uniforms
+    uniforms.uStaggerMode.value = this.stagger.mode;
+    uniforms.uStaggerDelay.value = this.stagger.delay;
+    uniforms.uStaggerSpeed.value = this.stagger.speed;
+    uniforms.uStaggerInvert.value = this.stagger.invert;
+    uniforms.uStaggerTexture.value = this.stagger.texture;
+  }
+
+  /**
+   * Sets the path particles take between the meshes of the sequence.
+   * @param path The morph path.
+   */
+  setMorphPath(path: MorphPath) {
+    const uniforms = this.morphPathUniforms;
+    updateMorphPathUniform(this.morphPath, path); // the axis is shared with the uniforms
+    uniforms.uPathMode.value = this.morphPath.mode;
+    uniforms.uPathAmplitude.value = this.morphPath.amplitude;
+    uniforms.uPathFrequency.value = this.morphPath.frequency;
+  }
+
+  /**
+   * Sets the custom GLSL hooks and rebuilds the velocity and position shaders.
+   * The simulation state is kept.
+   * @param hooks The hooks, or undefined to remove all hooks.
+   * @returns The names of the hook uniforms that clash with built-in uniforms and are ignored.
+   */
+  setShaderHooks(hooks?: ShaderHooks): string[] {
+    const clashes = new Set([
+      ...this.rebuildVariableShader(this.velocityVar, velocityShader, hooks),
+      ...this.rebuildVariableShader(this.positionVar, positionShader, hooks),
+    ]);
+    this.shaderHooks = hooks;
+    return [...clashes];
+  }
+
   setInteractionPosition(position: THREE.Vector4Like) {
-    this.interactionPosition.copy(position);
-    // The uniform 'uInteractionPosition' directly references this object,
+    this.setInteractionPositions([position]);
+  }
+
+  /**
+   * Sets the active interaction points. Unused slots are deactivated (w=0).
+   * @param positions The interaction points in simulation space, at most MAX_INTERACTION_POINTS.
+   * @param velocities The movement of each interaction point in units per second, used by the push mode.
+   */
+  setInteractionPositions(positions: THREE.Vector4Like[], velocities: THREE.Vector3Like[] = []) {
+    this.interactionPositions.forEach((interactionPosition, index) => {
+      const position = positions[index];
+      if (position) interactionPosition.copy(position);
+      else interactionPosition.set(0, 0, 0, 0);
+      this.interactionVelocities[index].copy(velocities[index] ?? { x: 0, y: 0, z: 0 });
+    });
+    // The uniform 'uInteractionPositions' directly references these objects,
     // so changes are automatically picked up by the shader.
   }
 
@@ -194,12 +446,14 @@ export class SimulationRenderer {
 
   /**
    * Computes the next step of the simulation.
-   * @param deltaTime The time elapsed since the last frame, in seconds.
+   * @param deltaTime The duration of the step, in seconds.
    */
   compute(deltaTime: number) {
     // Update time uniforms if they are used for time-dependent effects (like lifespan)
     this.velocityVar.material.uniforms.uTime.value += deltaTime; // Accumulate time
     this.positionVar.material.uniforms.uTime.value += deltaTime; // Accumulate time
+    this.velocityVar.material.uniforms.uDeltaTime.value = deltaTime;
+    this.positionVar.material.uniforms.uDeltaTime.value = deltaTime;
 
     // Update texture uniforms (dependencies) for the *next* computation step.
     // This ensures the shaders read the output from the previous step.
@@ -214,6 +468,60 @@ export class SimulationRenderer {
     this.lastKnownPositionDataTexture = this.gpuComputationRenderer.getCurrentRenderTarget(this.positionVar).texture;
   }
 
+  /**
+   * Reads the current positions and velocities back from the GPU without stalling the pipeline.
+   * @param rect The region to read, within the texture.
+   */
+  async readParticles(rect: ParticleRect): Promise<ParticleReadback> {
+    const [positions, velocities] = await Promise.all([
+      this.readRenderTarget(this.gpuComputationRenderer.getCurrentRenderTarget(this.positionVar), rect),
+      this.readRenderTarget(this.gpuComputationRenderer.getCurrentRenderTarget(this.velocityVar), rect),
+    ]);
+    return { positions, velocities, rect };
+  }
+
+  restoreState(state: SimulationState) {
+    if (state.textureSize !== this.size) {
+      throw new Error(`Simulation state size ${state.textureSize} does not match the simulation size ${this.size}.`);
+    }
+    // Write into both ping-pong targets, so the next compute reads the restored state
+    for (const [variable, data] of [
+      [this.positionVar, state.positions],
+      [this.velocityVar, state.velocities],
+    ] as const) {
+      const texture = createDataTexture(new Float32Array(data), this.size);
+      variable.renderTargets.forEach((renderTarget) => this.gpuComputationRenderer.renderTexture(texture, renderTarget));
+      texture.dispose();
+    }
+    this.velocityVar.material.uniforms.uTime.value = state.time;
+    this.positionVar.material.uniforms.uTime.value = state.time;
+  }
+
+  getTime(): number {
+    return this.velocityVar.material.uniforms.uTime.value;
+  }
+
+  private async readRenderTarget(renderTarget: THREE.WebGLRenderTarget, { x, y, width, height }: ParticleRect): Promise<Float32Array> {
+    const length = width * height * 4;
+    if (renderTarget.texture.type === THREE.HalfFloatType) {
+      const buffer = new Uint16Array(length);
+      await this.webGLRenderer.readRenderTargetPixelsAsync(renderTarget, x, y, width, height, buffer);
+      return Float32Array.from(buffer, THREE.DataUtils.fromHalfFloat);
+    }
+    const buffer = new Float32Array(length);
+    await this.webGLRenderer.readRenderTargetPixelsAsync(renderTarget, x, y, width, height, buffer);
+    return buffer;
+  }
+
+  private rebuildVariableShader(variable: Variable, source: string, hooks?: ShaderHooks): string[] {
+    // GPUComputationRenderer.init() declares a sampler for each dependency in front of the shader; keep them.
+    const dependencies = variable.dependencies.map((dependency) => `uniform sampler2D ${dependency.name};\n`).join('');
+    variable.material.fragmentShader = dependencies + injectShaderHooks(source, hooks);
+    const clashes = applyShaderHookUniforms(variable.material.uniforms, this.shaderHooks, hooks);
+    variable.material.needsUpdate = true;
+    return clashes;
+  }
+
   /** Gets the current velocity texture (output from the last compute step). */
   getVelocityTexture(): THREE.Texture {
     return this.lastKnownVelocityDataTexture;
@@ -1,7 +1,28 @@
 import { DefaultEventEmitter } from '@/lib/events';
-import { ServiceState } from '@/lib/types';
+import {
+  Collider,
+  ForceField,
+  ForceFieldFalloff,
+  InitialDistribution,
+  InteractionMode,
+  LifecycleOptions,
+  MorphPath,
+  ParticleReadback,
+  ParticleRect,
+  ReadParticlesOptions,
+  ServiceState,
+  ShaderHooks,
+  SimulationBackendType,
+  SimulationState,
+  StaggerOptions,
+} from '@/lib/types';
+import { createRandom } from '@/lib/utils';
 import * as THREE from 'three';
-import { PositionAtlasEntry, SimulationRenderer } from './simulationRenderer';
+import { CpuSimulationBackend } from './cpuSimulationBackend';
+import { createInitialPositions } from './initialDistribution';
+import { SignedDistanceField } from './signedDistanceField';
+import { PositionAtlasEntry, SimulationBackend } from './simulationBackend';
+import { SimulationRenderer } from './simulationRenderer';
 
 export class SimulationRendererService {
   private state!: ServiceState;
@@ -9,28 +30,52 @@ export class SimulationRendererService {
   private overallProgress: number; // ADDED: Store overall progress
   private velocityTractionForce: number;
   private positionalTractionForce: number;
+  private readonly seed?: number;
+  private readonly backendType: SimulationBackendType;
+  private readonly initialDistribution: InitialDistribution;
 
-  private simulationRenderer;
-  private webGLRenderer;
+  private simulationRenderer: SimulationBackend;
+  private webGLRenderer?: THREE.WebGLRenderer;
   private eventEmitter;
 
+  private lastReadback?: { time: number; rect: ParticleRect; size: number; result: Promise<ParticleReadback> };
+
   // Store atlas info
   private currentAtlasEntry: PositionAtlasEntry | null = null; // ADDED
 
   private lastKnownVelocityDataTexture: THREE.Texture;
   private lastKnownPositionDataTexture: THREE.Texture;
 
-  constructor(eventEmitter: DefaultEventEmitter, size: number, webGLRenderer: THREE.WebGLRenderer) {
+  /**
+   * Creates a new SimulationRendererService instance.
+   * @param eventEmitter The event emitter.
+   * @param size The size of the simulation textures.
+   * @param webGLRenderer The WebGL renderer, required by the gpu backend.
+   * @param seed The seed for the initial particle positions, Math.random when undefined.
+   * @param backendType Whether the simulation runs on the GPU or the CPU.
+   * @param initialDistribution The layout of the particles when the simulation is created or resized.
+   */
+  constructor(
+    eventEmitter: DefaultEventEmitter,
+    size: number,
+    webGLRenderer?: THREE.WebGLRenderer,
+    seed?: number,
+    backendType: SimulationBackendType = 'gpu',
+    initialDistribution: InitialDistribution = { type: 'sphere' },
+  ) {
     this.eventEmitter = eventEmitter;
     this.webGLRenderer = webGLRenderer;
     this.textureSize = size;
+    this.seed = seed;
+    this.backendType = backendType;
+    this.initialDistribution = initialDistribution;
     this.overallProgress = 0; // ADDED: Initialize overall progress
     this.velocityTractionForce = 0.1;
     this.positionalTractionForce = 0.1;
 
     this.updateServiceState('initializing');
 
-    this.simulationRenderer = new SimulationRenderer(this.textureSize, this.webGLRenderer);
+    this.simulationRenderer = this.createSimulationRenderer(this.textureSize);
     this.lastKnownVelocityDataTexture = this.simulationRenderer.getVelocityTexture();
     this.lastKnownPositionDataTexture = this.simulationRenderer.getPositionTexture();
 
@@ -42,8 +87,8 @@ export class SimulationRendererService {
    * @param entry An object containing the atlas texture and related parameters.
    */
   setPositionAtlas(entry: PositionAtlasEntry) {
-    // Validate texture size consistency if needed (atlas width vs textureSize * numMeshes)
-    const expectedWidth = entry.singleTextureSize * entry.numMeshes;
+    // Validate texture size consistency if needed (atlas width vs textureSize * atlasColumns)
+    const expectedWidth = entry.singleTextureSize * entry.atlasColumns;
     if (entry.dataTexture.image.width !== expectedWidth) {
       this.eventEmitter.emit('invalidRequest', { message: `Atlas texture width mismatch.` });
       return;
@@ -65,7 +110,7 @@ export class SimulationRendererService {
     this.updateServiceState('initializing');
     this.simulationRenderer.dispose();
     this.textureSize = size;
-    this.simulationRenderer = new SimulationRenderer(size, this.webGLRenderer);
+    this.simulationRenderer = this.createSimulationRenderer(size);
     this.updateServiceState('ready');
   }
 
@@ -79,9 +124,13 @@ export class SimulationRendererService {
     this.simulationRenderer.setPositionalTractionForce(this.positionalTractionForce);
   }
 
-  compute(elapsedTime: number) {
+  /**
+   * Advances the simulation by a single fixed step.
+   * @param deltaTime The duration of the step, in seconds.
+   */
+  compute(deltaTime: number) {
     if (this.state !== 'ready') return; // Don't compute if not ready
-    this.simulationRenderer.compute(elapsedTime);
+    this.simulationRenderer.compute(deltaTime);
     // Update last known textures after computation
     this.lastKnownVelocityDataTexture = this.simulationRenderer.getVelocityTexture();
     this.lastKnownPositionDataTexture = this.simulationRenderer.getPositionTexture();
@@ -97,6 +146,71 @@ export class SimulationRendererService {
     return this.lastKnownPositionDataTexture;
   }
 
+  /**
+   * Reads the current positions and velocities into typed arrays.
+   * @param options The region to read and the minimum time between readbacks.
+   * @returns The particle data of the requested region.
+   */
+  readParticles({ rect, throttle = 0 }: ReadParticlesOptions = {}): Promise<ParticleReadback> {
+    if (this.state !== 'ready') {
+      return Promise.reject(new Error(`Cannot read particles while the simulation is ${this.state}.`));
+    }
+    const size = this.textureSize;
+    const region = rect ? { ...rect } : { x: 0, y: 0, width: size, height: size };
+    if (region.x < 0 || region.y < 0 || region.width <= 0 || region.height <= 0 || region.x + region.width > size || region.y + region.height > size) {
+      return Promise.reject(new Error(`Readback rect ${JSON.stringify(region)} is outside of the ${size}x${size} simulation texture.`));
+    }
+
+    const now = performance.now();
+    const last = this.lastReadback;
+    if (last && last.size === size && now - last.time < throttle && isSameRect(last.rect, region)) {
+      return last.result;
+    }
+    const result = this.simulationRenderer.readParticles(region);
+    this.lastReadback = { time: now, rect: region, size, result };
+    return result;
+  }
+
+  /**
+   * Captures the positions, velocities and time of the simulation.
+   * @returns The simulation state, resolved once the textures are read back.
+   */
+  async captureState(): Promise<SimulationState> {
+    if (this.state !== 'ready') {
+      throw new Error(`Cannot capture the simulation while it is ${this.state}.`);
+    }
+    const size = this.textureSize;
+    const time = this.simulationRenderer.getTime();
+    const { positions, velocities } = await this.simulationRenderer.readParticles({ x: 0, y: 0, width: size, height: size });
+    return { textureSize: size, positions, velocities, time };
+  }
+
+  /**
+   * Restores a captured simulation state. States of another texture size are resampled.
+   * @param state The state to restore.
+   */
+  restoreState(state: SimulationState) {
+    if (this.state !== 'ready') return;
+    const expectedLength = state.textureSize * state.textureSize * 4;
+    if (state.positions.length !== expectedLength || state.velocities.length !== expectedLength) {
+      this.eventEmitter.emit('invalidRequest', { message: `Simulation state data does not match its texture size ${state.textureSize}.` });
+      return;
+    }
+    this.simulationRenderer.restoreState(resampleSimulationState(state, this.textureSize));
+    this.lastKnownVelocityDataTexture = this.simulationRenderer.getVelocityTexture();
+    this.lastKnownPositionDataTexture = this.simulationRenderer.getPositionTexture();
+  }
+
+  /**
+   * Moves every particle to the given position and stops it. The simulation time is kept.
+   * @param positions The positions, 4 floats per particle, for the current texture size.
+   */
+  setPositions(positions: Float32Array) {
+    if (this.state !== 'ready') return;
+    const size = this.textureSize;
+    this.restoreState({ textureSize: size, positions, velocities: new Float32Array(size * size * 4), time: this.simulationRenderer.getTime() });
+  }
+
   dispose() {
     this.updateServiceState('disposed');
     this.simulationRenderer.dispose();
@@ -106,6 +220,18 @@ export class SimulationRendererService {
     this.currentAtlasEntry = null; // Clear reference
   }
 
+  private createSimulationRenderer(size: number): SimulationBackend {
+    const random = this.seed === undefined ? Math.random : createRandom(this.seed);
+    const initialPosition = createInitialPositions(size, this.initialDistribution, random);
+    if (this.backendType === 'cpu') {
+      return new CpuSimulationBackend(size, initialPosition);
+    }
+    if (!this.webGLRenderer) {
+      throw new Error('The gpu simulation backend requires a WebGLRenderer.');
+    }
+    return new SimulationRenderer(size, this.webGLRenderer, initialPosition);
+  }
+
   private updateServiceState(serviceState: ServiceState) {
     this.state = serviceState;
     this.eventEmitter.emit('serviceStateUpdated', { type: 'simulation', state: serviceState });
@@ -116,8 +242,87 @@ export class SimulationRendererService {
     this.simulationRenderer.setInteractionPosition(position);
   }
 
+  setInteractionPositions(positions: THREE.Vector4Like[], velocities?: THREE.Vector3Like[]) {
+    // Pass through to the renderer
+    this.simulationRenderer.setInteractionPositions(positions, velocities);
+  }
+
+  setInteractionViewDirection(direction: THREE.Vector3Like) {
+    // Pass through to the renderer
+    this.simulationRenderer.setInteractionViewDirection(direction);
+  }
+
+  setInteractionMode(mode: InteractionMode) {
+    // Pass through to the renderer
+    this.simulationRenderer.setInteractionMode(mode);
+  }
+
+  setInteractionStrength(strength: number) {
+    // Pass through to the renderer
+    this.simulationRenderer.setInteractionStrength(strength);
+  }
+
+  setInteractionFalloff(falloff: ForceFieldFalloff) {
+    // Pass through to the renderer
+    this.simulationRenderer.setInteractionFalloff(falloff);
+  }
+
   setMaxRepelDistance(distance: number) {
     // Pass through to the renderer
     this.simulationRenderer.setMaxRepelDistance(distance);
   }
+
+  setForceFields(fields: ForceField[]) {
+    // Pass through to the renderer
+    this.simulationRenderer.setForceFields(fields);
+  }
+
+  setColliders(colliders: Collider[], sdf?: SignedDistanceField) {
+    // Pass through to the renderer
+    this.simulationRenderer.setColliders(colliders, sdf);
+  }
+
+  setLifecycle(options: LifecycleOptions, emitterTexture: THREE.Texture | null = null) {
+    // Pass through to the renderer
+    this.simulationRenderer.setLifecycle(options, emitterTexture);
+  }
+
+  setStagger(options: StaggerOptions) {
+    // Pass through to the renderer
+    this.simulationRenderer.setStagger(options);
+  }
+
+  setMorphPath(path: MorphPath) {
+    // Pass through to the renderer
+    this.simulationRenderer.setMorphPath(path);
+  }
+
+  setShaderHooks(hooks?: ShaderHooks): string[] {
+    // Pass through to the renderer
+    return this.simulationRenderer.setShaderHooks(hooks);
+  }
+}
+
+/**
+ * Resamples a simulation state to another texture size, picking the nearest particle of the source grid.
+ */
+function resampleSimulationState(state: SimulationState, size: number): SimulationState {
+  if (state.textureSize === size) return state;
+  const positions = new Float32Array(size * size * 4);
+  const velocities = new Float32Array(size * size * 4);
+  const scale = state.textureSize / size;
+  for (let y = 0; y < size; y++) {
+    const sourceY = Math.floor(y * scale);
+    for (let x = 0; x < size; x++) {
+      const source = (sourceY * state.textureSize + Math.floor(x * scale)) * 4;
+      const target = (y * size + x) * 4;
+      positions.set(state.positions.subarray(source, source + 4), target);
+      velocities.set(state.velocities.subarray(source, source + 4), target);
+    }
+  }
+  return { textureSize: size, positions, velocities, time: state.time };
+}
+
+function isSameRect(a: ParticleRect, b: ParticleRect) {
+  return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
 }
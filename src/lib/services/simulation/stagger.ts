@@ -0,0 +1,74 @@
+import { StaggerMode, StaggerOptions } from '@/lib/types';
+import { clamp } from '@/lib/utils';
+import * as THREE from 'three';
+
+/**
+ * The uniform values of the stagger options, matching the stagger uniforms in targetChunk.
+ */
+export type StaggerUniform = {
+  mode: number;
+  delay: number;
+  speed: number;
+  invert: number;
+  origin: THREE.Vector3;
+  axis: THREE.Vector3;
+  range: THREE.Vector2;
+  texture: THREE.Texture | null;
+};
+
+const STAGGER_MODES: Record<StaggerMode, number> = { none: 0, random: 1, distance: 2, axis: 3, texture: 4 };
+
+/**
+ * Creates the uniform values for the default options, where every particle moves at once.
+ */
+export function createStaggerUniform(): StaggerUniform {
+  return {
+    mode: 0,
+    delay: 0,
+    speed: 1,
+    invert: 0,
+    origin: new THREE.Vector3(),
+    axis: new THREE.Vector3(0, 1, 0),
+    range: new THREE.Vector2(0, 1),
+    texture: null,
+  };
+}
+
+/**
+ * Copies the stagger options into an existing uniform value.
+ * @param uniform The uniform value to update.
+ * @param options The stagger options. A missing range maps the field to 0..1 as is.
+ */
+export function updateStaggerUniform(uniform: StaggerUniform, options: StaggerOptions) {
+  const enabled = options.mode !== 'none';
+  uniform.mode = STAGGER_MODES[options.mode];
+  uniform.delay = enabled ? clamp(options.delay ?? 0.5, 0, 0.95) : 0;
+  uniform.speed = enabled ? Math.max(0, options.speed ?? 1) : 1;
+  uniform.invert = options.invert ? 1 : 0;
+  uniform.origin.copy(options.origin ?? { x: 0, y: 0, z: 0 });
+  uniform.axis.copy(options.axis ?? { x: 0, y: 1, z: 0 }).normalize();
+  uniform.range.set(...(options.range ?? [0, 1]));
+  uniform.texture = options.texture ?? null;
+}
+
+/**
+ * Measures the extent of the distance or axis field over a set of positions, e.g. the mesh sequence atlas.
+ * @param options The stagger options.
+ * @param positions The positions, 4 floats each.
+ * @returns The minimum and maximum field value, or undefined for modes without a spatial field.
+ */
+export function measureStaggerRange(options: StaggerOptions, positions: ArrayLike<number>): [number, number] | undefined {
+  if (options.mode !== 'distance' && options.mode !== 'axis') return undefined;
+  const origin = new THREE.Vector3().copy(options.origin ?? { x: 0, y: 0, z: 0 });
+  const axis = new THREE.Vector3().copy(options.axis ?? { x: 0, y: 1, z: 0 }).normalize();
+  const position = new THREE.Vector3();
+  let min = Infinity;
+  let max = -Infinity;
+  for (let offset = 0; offset < positions.length; offset += 4) {
+    position.set(positions[offset], positions[offset + 1], positions[offset + 2]);
+    const value = options.mode === 'distance' ? position.distanceTo(origin) : position.dot(axis);
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return min <= max ? [min, max] : undefined;
+}
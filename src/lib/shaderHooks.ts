@@ -0,0 +1,38 @@
+import { ShaderHookPoint, ShaderHooks } from '@/lib/types';
+import * as THREE from 'three';
+
+const HOOK_PATTERN = /^[ \t]*\/\/ @hook ([a-z_]+)[ \t]*$/gm;
+
+/**
+ * Replaces the `// @hook <name>` markers of a shader with the matching snippets.
+ * Markers without a snippet are removed.
+ * @param source The shader source.
+ * @param hooks The hooks to inject.
+ * @returns The shader source with the hooks injected.
+ */
+export function injectShaderHooks(source: string, hooks?: ShaderHooks): string {
+  return source.replace(HOOK_PATTERN, (_, name: string) => hooks?.snippets[name as ShaderHookPoint] ?? '');
+}
+
+/**
+ * Replaces the hook uniforms of a material. Hook uniforms named like a built-in uniform are not added.
+ * @param uniforms The uniforms of the material.
+ * @param previous The previously applied hooks, whose uniforms are removed.
+ * @param hooks The hooks whose uniforms are added.
+ * @returns The names of the hook uniforms that clash with built-in uniforms.
+ */
+export function applyShaderHookUniforms(uniforms: Record<string, THREE.IUniform>, previous?: ShaderHooks, hooks?: ShaderHooks): string[] {
+  // Only remove what was added, a clashing name still holds the built-in uniform
+  Object.entries(previous?.uniforms ?? {}).forEach(([name, uniform]) => {
+    if (uniforms[name] === uniform) delete uniforms[name];
+  });
+  const clashes: string[] = [];
+  Object.entries(hooks?.uniforms ?? {}).forEach(([name, uniform]) => {
+    if (name in uniforms) {
+      clashes.push(name);
+      return;
+    }
+    uniforms[name] = uniform;
+  });
+  return clashes;
+}
@@ -6,9 +6,113 @@ import * as THREE from "three";
 export type MeshData = {
   position: ArrayLike<number>;
   normal?: ArrayLike<number>;
+  index?: ArrayLike<number>;
+  uv?: ArrayLike<number>;
+  color?: { array: ArrayLike<number>; itemSize: number }; // vertex colors, RGB or RGBA
+  /** Per-vertex sampling weights, see SamplingWeight. */
+  weight?: ArrayLike<number>;
   scale: { x: number; y: number; z: number };
 };
 
+/**
+ * What the particle density on a mesh surface follows. Without a weight, particles are spread evenly by area.
+ * - vertex-color: the luminance of the vertex colors.
+ * - attribute: a custom per-vertex attribute with one value per vertex, `weight` by default.
+ * - texture: the luminance or alpha of a texture, looked up by the mesh UVs. Its image must be readable on the CPU.
+ */
+export type SamplingWeight =
+  | { type: 'vertex-color' }
+  | { type: 'attribute'; name?: string }
+  | { type: 'texture'; texture: THREE.Texture; channel?: TextureWeightChannel };
+
+export type TextureWeightChannel = 'luminance' | 'alpha';
+
+/**
+ * Where particle targets are placed on a mesh.
+ * - surface: on the surface.
+ * - volume: inside the mesh, uniformly by volume. The mesh should be watertight.
+ * - mixed: a share of the particles inside, see MeshSamplingOptions.interiorRatio, and the rest on the surface.
+ */
+export type MeshSamplingMode = 'surface' | 'volume' | 'mixed';
+
+/**
+ * How particle targets are sampled from a registered mesh.
+ */
+export type MeshSamplingOptions = {
+  mode?: MeshSamplingMode; // defaults to 'surface'
+  interiorRatio?: number; // share of particles inside the mesh in the mixed mode, 0.3 by default
+  weight?: SamplingWeight; // applies to the surface samples
+  thickness?: number; // spreads the surface samples along their normal over this depth, e.g. to give flat targets volume
+};
+
+/**
+ * An image that can be registered as a particle target. Its pixels must be readable, so cross-origin images need CORS.
+ */
+export type ImageTargetSource = THREE.Texture | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+/**
+ * Options of an image registered as a particle target, see ParticlesEngine.registerImageTarget.
+ */
+export type ImageTargetOptions = {
+  /** What the particle density follows. Defaults to alpha. */
+  weight?: TextureWeightChannel;
+  /** Width of the target in world units. The height follows the aspect ratio of the image. Defaults to 2. */
+  width?: number;
+  /** Spreads the particles over this depth along z. Defaults to 0. */
+  depth?: number;
+};
+
+/**
+ * Options of an SVG drawing registered as a particle target, see ParticlesEngine.registerSvgTarget.
+ */
+export type SvgTargetOptions = {
+  /** Width of the target in world units. The height follows the aspect ratio of the drawing. Defaults to 2. */
+  width?: number;
+  /** Extrudes the filled shapes by this depth. Defaults to 0, which samples the flat shapes. */
+  depth?: number;
+  /** Points per curve segment of the shapes. Defaults to 12. */
+  curveSegments?: number;
+};
+
+/**
+ * A point cloud given as raw arrays, see ParticlesEngine.registerPointCloud.
+ */
+export type PointCloudData = {
+  /** The point positions, 3 floats each. */
+  positions: ArrayLike<number>;
+  /** The linear point colors, 3 floats each from 0 to 1. */
+  colors?: ArrayLike<number>;
+};
+
+/**
+ * A mesh sequence atlas baked ahead of time, e.g. with the ionian-bake command, see ParticlesEngine.loadBakedAtlas.
+ * Each channel holds 4 floats per texel of a textureSize * meshIDs.length by textureSize atlas, laid out like the atlas of setMeshSequence.
+ */
+export type BakedAtlas = {
+  textureSize: number;
+  meshIDs: string[];
+  /** The seed the meshes were sampled with, if any. */
+  seed?: number;
+  correspondence: MeshCorrespondence;
+  positions: Float32Array;
+  normals: Float32Array;
+  /** Linear colors, stored clamped to 0..1. */
+  colors: Float32Array;
+};
+
+/**
+ * How the samples of the meshes in a sequence are matched up, so particles travel short distances during morphs.
+ * - none: every mesh is sampled independently.
+ * - curve: the samples of each mesh are sorted along a space-filling curve through its bounds.
+ * - assignment: curve order, then refined by swaps that shorten the travel from the previous mesh. Slower to build.
+ */
+export type MeshCorrespondence = 'none' | 'curve' | 'assignment';
+
+/**
+ * Identifies a pointer, e.g. PointerEvent.pointerId.
+ */
+export type PointerId = number | string;
+
 /**
  * Represents an easing function.
  */
@@ -16,8 +120,74 @@ export interface EasingFunction {
   (n: number): number;
 }
 
+/**
+ * Represents a random number generator returning values in [0, 1).
+ */
+export type RandomFunction = () => number;
+
 export type ServiceType = 'data-texture' | 'matcap' | 'instanced-mesh' | 'simulation' | 'asset';
 export type ServiceState = 'created' | 'initializing' | 'ready' | 'disposed' | 'error' | 'loading';
+
+/**
+ * A region of the simulation textures, in texels. Particle (x, y) has index y * textureSize + x.
+ */
+export type ParticleRect = { x: number; y: number; width: number; height: number };
+
+export type ReadParticlesOptions = {
+  /** The region to read. Defaults to the whole texture. */
+  rect?: ParticleRect;
+  /** Minimum time between readbacks in milliseconds. Calls within this interval resolve to the previous result of the same rect. */
+  throttle?: number;
+};
+
+/**
+ * Particle data read back from the simulation, row by row, 4 floats per particle.
+ */
+export type ParticleReadback = {
+  /** xyz position in simulation space, w is the age in seconds. */
+  positions: Float32Array;
+  /** xyz velocity in units per step, w is the lifetime in seconds. */
+  velocities: Float32Array;
+  rect: ParticleRect;
+};
+
+/**
+ * A snapshot of the running simulation, see ParticlesEngine.captureSimulationState.
+ */
+export type SimulationState = {
+  textureSize: number;
+  /** 4 floats per particle: xyz position and age. */
+  positions: Float32Array;
+  /** 4 floats per particle: xyz velocity and lifetime. */
+  velocities: Float32Array;
+  /** The simulation time (uTime) in seconds. */
+  time: number;
+};
+
+/**
+ * Built-in layouts of the particles before the first mesh sequence is set.
+ * - sphere: on the surface of a sphere.
+ * - sphere-volume: inside a sphere.
+ * - cube: on a regular 3D grid.
+ * - plane: on a regular grid in the xy plane.
+ * - disk: inside a disk in the xy plane.
+ * - box: randomly inside a box.
+ * - first-mesh: on the first mesh of the sequence, starting on a sphere until a sequence is set.
+ */
+export type InitialDistributionType = 'sphere' | 'sphere-volume' | 'cube' | 'plane' | 'disk' | 'box' | 'first-mesh';
+
+export type InitialDistribution = {
+  type: InitialDistributionType;
+  /** Radius of spheres and disks, half the edge length of cubes and planes. Defaults to 1. */
+  scale?: number;
+  /** Full size of the random box. Defaults to 2 along each axis. */
+  size?: THREE.Vector3Like;
+};
+
+/**
+ * Where the particle simulation runs. `cpu` needs no WebGL context and mirrors the GPU shaders on typed arrays.
+ */
+export type SimulationBackendType = 'gpu' | 'cpu';
 export type TransitionType = 'data-texture' | 'texture' | 'mesh-sequence';
 
 export interface TransitionDetail {
@@ -34,8 +204,232 @@ export type TransitionOptions = {
   onTransitionCancelled?: Callback;
 };
 
+/**
+ * Options of a mesh sequence transition.
+ * `path` overrides parts of the engine's morph path for this transition only, e.g. `{ amplitude: 2 }`.
+ */
+export type MeshSequenceTransitionOptions = TransitionOptions & {
+  path?: Partial<MorphPath>;
+};
+
 export type TextureSequenceItem =
   | { type: 'matcap'; id: string }
   | { type: 'color'; value: THREE.ColorRepresentation }; // THREE.ColorRepresentation 사용
 
-export type TextureSequence = TextureSequenceItem[];
\ No newline at end of file
+export type TextureSequence = TextureSequenceItem[];
+
+export type ForceFieldType = 'attractor' | 'vortex' | 'wind' | 'gravity' | 'turbulence';
+export type ForceFieldFalloff = 'none' | 'linear' | 'smooth' | 'inverse-square';
+
+/**
+ * How pointers affect nearby particles.
+ * - repel: pushes particles away from the pointer.
+ * - attract: pulls particles toward the pointer.
+ * - swirl: spins particles around the pointer in the screen plane.
+ * - push: drags particles along the direction the pointer moves.
+ */
+export type InteractionMode = 'repel' | 'attract' | 'swirl' | 'push';
+
+/**
+ * A force field applied to every particle in the velocity pass of the simulation.
+ * Strength is an acceleration in units per second squared; negative values invert the force.
+ */
+export type ForceField = {
+  id: string;
+  type: ForceFieldType;
+  strength: number;
+  enabled?: boolean;
+  /** Center of the field. Required for attractors and vortices, and the origin of the falloff for all types. */
+  position?: THREE.Vector3Like;
+  /** Direction of wind and gravity, or the axis of a vortex. */
+  direction?: THREE.Vector3Like;
+  /** Distance at which the falloff reaches zero. 0 or undefined means unlimited range. */
+  radius?: number;
+  falloff?: ForceFieldFalloff;
+  /** Spatial frequency of turbulence and wind gusts. */
+  frequency?: number;
+  /** Animation speed of turbulence and wind gusts. */
+  speed?: number;
+};
+
+export type ColliderType = 'plane' | 'box' | 'sphere' | 'sdf';
+
+/**
+ * A shape that particles cannot pass through, in simulation space.
+ * The `sdf` type uses a signed distance field baked from a registered mesh; only one can be active at a time.
+ */
+export type Collider = {
+  id: string;
+  type: ColliderType;
+  enabled?: boolean;
+  /** A point on the plane, or the center of a box or sphere. Offsets the mesh of an sdf collider. */
+  position?: THREE.Vector3Like;
+  /** Normal of a plane, pointing to the side particles are kept on. */
+  normal?: THREE.Vector3Like;
+  /** Full size of a box along each axis. */
+  size?: THREE.Vector3Like;
+  /** Radius of a sphere. */
+  radius?: number;
+  /** The registered mesh an sdf collider is baked from. */
+  meshId?: string;
+  /** Voxels along each axis of the baked field. Defaults to 32. */
+  sdfResolution?: number;
+  /** Keeps particles inside the shape instead of outside, e.g. a room. */
+  invert?: boolean;
+  /** Fraction of the normal velocity kept after a collision. 0 stops, 1 is perfectly elastic. Defaults to 0.3. */
+  bounce?: number;
+  /** Fraction of the tangential velocity removed per collision step. Defaults to 0.1. */
+  friction?: number;
+};
+
+/**
+ * The per-particle field that orders arrivals during mesh sequence transitions.
+ * - none: every particle moves at once.
+ * - random: a random order, for dissolves.
+ * - distance: by distance from `origin`, for waves spreading out from a point.
+ * - axis: by position along `axis`, for sweeps across the object.
+ * - texture: by the red channel of `texture`, sampled at the particle's simulation texel.
+ */
+export type StaggerMode = 'none' | 'random' | 'distance' | 'axis' | 'texture';
+
+/**
+ * Staggers the arrivals of particles during mesh sequence transitions.
+ * Each particle gets a field value between 0 and 1, which sets its delay and speed.
+ */
+export type StaggerOptions = {
+  mode: StaggerMode;
+  /** Fraction of each transition over which departures are spread, between 0 and 0.95. Defaults to 0.5. */
+  delay?: number;
+  /** Traction multiplier of the particles with field value 1; those with 0 keep the normal traction. Defaults to 1. */
+  speed?: number;
+  /** Reverses the order, so particles with field value 1 move first. */
+  invert?: boolean;
+  /** Center of the distance mode. Defaults to the origin. */
+  origin?: THREE.Vector3Like;
+  /** Direction of the axis mode. Defaults to +y. */
+  axis?: THREE.Vector3Like;
+  /** Field values mapped to 0 and 1 in the distance and axis modes. Defaults to the extent of the mesh sequence. */
+  range?: [number, number];
+  /** Per-particle values of the texture mode, with the size of the simulation texture. Not stored in presets. */
+  texture?: THREE.Texture;
+};
+
+/**
+ * The path particles take between two meshes of the sequence.
+ * - linear: straight lines.
+ * - arc: bulges outward from the origin.
+ * - spiral: turns around `axis`.
+ * - scatter: explodes into a cloud mid-transition and gathers again.
+ * - noise: wanders along a noise field.
+ */
+export type MorphPathMode = 'linear' | 'arc' | 'spiral' | 'scatter' | 'noise';
+
+/**
+ * Curves the paths of mesh sequence transitions. The displacement peaks mid-transition and vanishes at both meshes.
+ */
+export type MorphPath = {
+  mode: MorphPathMode;
+  /** Displacement in units for arc, scatter and noise; number of turns for spiral. Defaults to 1. */
+  amplitude?: number;
+  /** Axis of the spiral, through the origin. Defaults to +y. */
+  axis?: THREE.Vector3Like;
+  /** Spatial frequency of the noise. Defaults to 1. */
+  frequency?: number;
+};
+
+/**
+ * Which way the instance geometry of a particle points.
+ * - velocity: along the motion of the particle.
+ * - surface: along the baked surface normal at its targets. Particles inside a mesh fall back to velocity.
+ */
+export type ParticleOrientation = 'velocity' | 'surface';
+
+/**
+ * How particles take on the surface of the mesh sequence, from the normals and colors baked with the targets.
+ */
+export type ParticleAppearance = {
+  /** Tints particles with the colors of the meshes: vertex colors, base color map and material color. */
+  meshColors: boolean;
+  orientation: ParticleOrientation;
+};
+
+/**
+ * Where particles respawn when their lifetime ends.
+ * - `point`: uniformly inside a sphere around `position`.
+ * - `mesh`: on the surface of a registered mesh.
+ * - `target`: at the particle's current target in the mesh sequence.
+ */
+export type ParticleEmitter = { type: 'point'; position: THREE.Vector3Like; radius?: number } | { type: 'mesh'; meshId: string } | { type: 'target' };
+
+/**
+ * Particle lifecycle options. When disabled, particles live forever.
+ */
+export type LifecycleOptions = {
+  enabled: boolean;
+  /** Minimum and maximum lifetime of a particle, in seconds. */
+  lifetime: [number, number];
+  /** Particles born per second. 0 respawns particles as soon as they die. */
+  birthRate: number;
+  emitter: ParticleEmitter;
+  /** Fades particles out over their lifetime. */
+  fade: boolean;
+  /** Shrinks particles over their lifetime. */
+  shrink: boolean;
+};
+
+/**
+ * Named injection points for custom GLSL.
+ * - `velocity_header` / `position_header` / `vertex_header` / `fragment_header`: top level, for uniform declarations and helper functions.
+ * - `velocity_forces`: may modify `finalVelocity`; `currentPosition`, `currentVelocity`, `targetPosition` and `uv` are available.
+ * - `position_integrate`: may modify `finalPosition`; `currentPosition`, `currentVelocity`, `targetPosition` and `uv` are available.
+ * - `vertex_transform`: may modify `pos` (particle position) and `localPosition` (instance geometry vertex); `velocity`, `normalizedAge`, `uvRef` and
+ *   `surfaceNormal` are available.
+ * - `fragment_color`: may modify `finalColor`; `vNormal`, `vViewPosition` and `vMeshColor` are available.
+ * The simulation headers can read the baked surface of the sequence with `getAtlasNormal(uv, meshIndex)` and `getAtlasColor(uv, meshIndex)`.
+ */
+export type ShaderHookPoint =
+  | 'velocity_header'
+  | 'velocity_forces'
+  | 'position_header'
+  | 'position_integrate'
+  | 'vertex_header'
+  | 'vertex_transform'
+  | 'fragment_header'
+  | 'fragment_color';
+
+/**
+ * Custom GLSL snippets and the uniforms they use.
+ * Uniforms are shared by reference with every shader, so updating `uniforms[name].value` takes effect immediately.
+ * They must be declared in the matching `*_header` hook of each shader that uses them.
+ */
+export type ShaderHooks = {
+  snippets: Partial<Record<ShaderHookPoint, string>>;
+  uniforms?: Record<string, THREE.IUniform>;
+};
+
+/**
+ * A serializable snapshot of the engine configuration.
+ * Assets are referenced by their registered IDs. The seed is fixed when the engine is created and is not included.
+ */
+export interface EnginePreset {
+  version: number;
+  textureSize: number;
+  meshSequence: string[];
+  textureSequence: TextureSequence;
+  overallProgress: number;
+  velocityTractionForce: number;
+  positionalTractionForce: number;
+  maxRepelDistance: number;
+  interactionMode: InteractionMode;
+  interactionStrength: number;
+  interactionFalloff: ForceFieldFalloff;
+  instanceGeometryScale: { x: number; y: number; z: number };
+  useIntersect: boolean;
+  forceFields: ForceField[];
+  colliders: Collider[];
+  lifecycle: LifecycleOptions;
+  stagger: StaggerOptions;
+  morphPath: MorphPath;
+  appearance: ParticleAppearance;
+  timeScale: number;
+}
@@ -1,5 +1,15 @@
 import * as THREE from 'three';
-import { TextureSequence } from './index';
+import {
+  Collider,
+  ForceField,
+  ForceFieldFalloff,
+  InteractionMode,
+  LifecycleOptions,
+  MorphPath,
+  ParticleAppearance,
+  StaggerOptions,
+  TextureSequence,
+} from './index';
 
 /**
  * Represents the current state of the system.
@@ -7,16 +17,29 @@ import { TextureSequence } from './index';
 export interface EngineState {
   pointerPosition: THREE.Vector2Like;
   textureSize: number;
+  seed?: number; // seed for all random sources, Math.random when undefined
 
   meshSequence: string[]; // ADDED: Array of mesh IDs in sequence
   overallProgress: number; // ADDED: Progress through the entire sequence (0.0 to 1.0)
 
   velocityTractionForce: number;
   positionalTractionForce: number;
-  maxRepelDistance: number;
+  maxRepelDistance: number; // radius of the pointer interaction
+  interactionMode: InteractionMode;
+  interactionStrength: number; // 1.0 is the default pointer force
+  interactionFalloff: ForceFieldFalloff;
+  forceFields: ForceField[];
+  colliders: Collider[];
+  lifecycle: LifecycleOptions;
+  stagger: StaggerOptions; // arrival order of particles during mesh morphs
+  morphPath: MorphPath; // default path of mesh morphs, transitions may override it
+  appearance: ParticleAppearance; // use of the baked mesh normals and colors
 
   textureSequence: TextureSequence;
 
   instanceGeometryScale: THREE.Vector3Like;
   useIntersect: boolean;
+
+  timeScale: number;
+  paused: boolean;
 }
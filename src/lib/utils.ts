@@ -1,3 +1,4 @@
+import { RandomFunction } from '@/lib/types';
 import * as THREE from 'three';
 
 /**
@@ -24,16 +25,17 @@ export function createBlankDataTexture(size: number) {
 /**
  * Creates a DataTexture representing a sphere.
  * @param size - The size of the texture.
+ * @param random - The random number generator to use.
  * @returns The created DataTexture.
  */
-export function createSpherePoints(size: number) {
+export function createSpherePoints(size: number, random: RandomFunction = Math.random) {
   const data = new Float32Array(size * size * 4);
   for (let i = 0; i < size; i++) {
     for (let j = 0; j < size; j++) {
       const index = i * size + j;
 
-      let theta = Math.random() * Math.PI * 2;
-      let phi = Math.acos(Math.random() * 2 - 1);
+      let theta = random() * Math.PI * 2;
+      let phi = Math.acos(random() * 2 - 1);
       let x = Math.sin(phi) * Math.cos(theta);
       let y = Math.sin(phi) * Math.sin(theta);
       let z = Math.cos(phi);
@@ -41,14 +43,14 @@ export function createSpherePoints(size: number) {
       data[4 * index] = x;
       data[4 * index + 1] = y;
       data[4 * index + 2] = z;
-      data[4 * index + 3] = (Math.random() - 0.5) * 0.01;
+      data[4 * index + 3] = (random() - 0.5) * 0.01;
     }
   }
 
   return createDataTexture(data, size);
 }
 
-export function disposeMesh(mesh: THREE.Mesh) {
+export function disposeMesh(mesh: THREE.Mesh | THREE.Points) {
   mesh.geometry.dispose();
   if (mesh.material instanceof THREE.Material) {
     mesh.material.dispose();
@@ -62,3 +64,33 @@ export function clamp(value: number, min: number, max: number): number {
   value = Math.max(value, min);
   return value;
 }
+
+/**
+ * Creates a seeded random number generator (mulberry32).
+ * @param seed - The seed. The same seed always yields the same sequence.
+ * @returns The random number generator.
+ */
+export function createRandom(seed: number): RandomFunction {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hashes a string into a 32-bit unsigned integer (FNV-1a).
+ * @param value - The string to hash.
+ * @returns The hash.
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
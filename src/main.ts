@@ -6,7 +6,19 @@ import GUI, { Controller } from 'lil-gui';
 import Stats from 'stats.js';
 import * as THREE from 'three';
 import { OrbitControls } from 'three-stdlib';
-import { TextureSequence } from '@/lib/types';
+import {
+  Collider,
+  ForceField,
+  ForceFieldFalloff,
+  InitialDistributionType,
+  InteractionMode,
+  MeshCorrespondence,
+  MorphPathMode,
+  ParticleOrientation,
+  PointerId,
+  StaggerMode,
+  TextureSequence,
+} from '@/lib/types';
 
 type CMSEntry = { id: number; name: string; file: string };
 
@@ -41,12 +53,20 @@ scene.add(camera);
 
 // --- Particles Engine Initialization ---
 const initialTextureSize = 64;
+const seedParam = new URLSearchParams(window.location.search).get('seed'); // e.g. ?seed=42 for a reproducible layout
+const backendParam = new URLSearchParams(window.location.search).get('backend'); // ?backend=cpu runs the simulation on the CPU
+const distributionParam = new URLSearchParams(window.location.search).get('distribution'); // e.g. ?distribution=first-mesh
+const correspondenceParam = new URLSearchParams(window.location.search).get('correspondence'); // ?correspondence=curve or assignment
 const engine = new ParticlesEngine({
   textureSize: initialTextureSize,
   scene,
   renderer,
   camera,
   useIntersection: false, // Initial state for intersection
+  seed: seedParam !== null ? Number(seedParam) : undefined,
+  simulationBackend: backendParam === 'cpu' ? 'cpu' : 'gpu',
+  initialDistribution: { type: (distributionParam as InitialDistributionType | null) ?? 'sphere' },
+  meshCorrespondence: (correspondenceParam as MeshCorrespondence | null) ?? 'none',
 });
 
 const initialTextureSequence: TextureSequence = [
@@ -70,6 +90,9 @@ const simulationParams = {
   velocityTraction: 0.1,
   positionalTraction: 0.1,
   maxRepelDistance: 0.3,
+  interactionMode: 'repel' as InteractionMode,
+  interactionStrength: 1.0,
+  interactionFalloff: 'smooth' as ForceFieldFalloff,
 };
 
 const instanceParams = {
@@ -93,6 +116,12 @@ overallProgressController = sequenceFolder
 
 sequenceFolder.add(meshParams, 'targetProgress', 0, 1, 0.01).name('Target Progress');
 sequenceFolder.add(meshParams, 'transitionDuration', 500, 10000, 100).name('Duration (ms)');
+const pathParams = { mode: 'linear' as MorphPathMode, amplitude: 1 };
+sequenceFolder
+  .add(pathParams, 'mode', ['linear', 'arc', 'spiral', 'scatter', 'noise'])
+  .name('Path')
+  .onChange(() => engine.setMorphPath({ mode: pathParams.mode }));
+sequenceFolder.add(pathParams, 'amplitude', 0, 3, 0.05).name('Path Amplitude');
 sequenceFolder
   .add(
     {
@@ -112,6 +141,7 @@ sequenceFolder
             },
             onTransitionFinished: () => console.log('Overall transition finished.'),
             onTransitionCancelled: () => console.log('Overall transition cancelled.'),
+            path: { amplitude: pathParams.amplitude },
           },
           true
         );
@@ -121,6 +151,15 @@ sequenceFolder
   )
   .name('Start Overall Transition');
 
+const staggerParams = { mode: 'none' as StaggerMode, delay: 0.5, speed: 1, invert: false };
+const applyStagger = () =>
+  engine.setStagger({ mode: staggerParams.mode, delay: staggerParams.delay, speed: staggerParams.speed, invert: staggerParams.invert });
+const staggerFolder = sequenceFolder.addFolder('Stagger').close();
+staggerFolder.add(staggerParams, 'mode', ['none', 'random', 'distance', 'axis']).name('Mode').onChange(applyStagger);
+staggerFolder.add(staggerParams, 'delay', 0, 0.95, 0.01).name('Delay').onChange(applyStagger);
+staggerFolder.add(staggerParams, 'speed', 0.1, 4, 0.1).name('Speed').onChange(applyStagger);
+staggerFolder.add(staggerParams, 'invert').name('Invert').onChange(applyStagger);
+
 // --- 3. Simulation Parameters Folder ---
 const simFolder = gui.addFolder('Simulation Parameters').close();
 simFolder
@@ -135,6 +174,94 @@ simFolder
   .add(simulationParams, 'maxRepelDistance', 0.0, 1.0, 0.001)
   .name('Max Repel Distance')
   .onChange((value: number) => engine.setMaxRepelDistance(value));
+simFolder
+  .add(simulationParams, 'interactionMode', ['repel', 'attract', 'swirl', 'push'])
+  .name('Interaction Mode')
+  .onChange((value: InteractionMode) => engine.setInteractionMode(value));
+simFolder
+  .add(simulationParams, 'interactionStrength', -5.0, 5.0, 0.01)
+  .name('Interaction Strength')
+  .onChange((value: number) => engine.setInteractionStrength(value));
+simFolder
+  .add(simulationParams, 'interactionFalloff', ['none', 'linear', 'smooth', 'inverse-square'])
+  .name('Interaction Falloff')
+  .onChange((value: ForceFieldFalloff) => engine.setInteractionFalloff(value));
+
+const clockParams = {
+  paused: false,
+  timeScale: 1.0,
+};
+const clockFolder = simFolder.addFolder('Clock');
+clockFolder
+  .add(clockParams, 'paused')
+  .name('Paused')
+  .onChange((value: boolean) => (value ? engine.pause() : engine.resume()));
+clockFolder
+  .add(clockParams, 'timeScale', 0.0, 3.0, 0.01)
+  .name('Time Scale')
+  .onChange((value: number) => engine.setTimeScale(value));
+
+const forceFields: ForceField[] = [
+  { id: 'gravity', type: 'gravity', strength: 2.0, enabled: false },
+  {
+    id: 'vortex',
+    type: 'vortex',
+    strength: 3.0,
+    position: { x: 0, y: 0, z: 0 },
+    direction: { x: 0, y: 1, z: 0 },
+    radius: 2.0,
+    falloff: 'smooth',
+    enabled: false,
+  },
+  { id: 'turbulence', type: 'turbulence', strength: 3.0, frequency: 1.5, speed: 0.3, enabled: false },
+];
+engine.setForceFields(forceFields);
+const forceFieldFolder = simFolder.addFolder('Force Fields');
+forceFields.forEach((field) => {
+  const folder = forceFieldFolder.addFolder(field.id).close();
+  folder.add(field, 'enabled').onChange((enabled: boolean) => engine.updateForceField(field.id, { enabled }));
+  folder.add(field, 'strength', -10.0, 10.0, 0.01).onChange((strength: number) => engine.updateForceField(field.id, { strength }));
+});
+
+const colliders: Collider[] = [
+  { id: 'floor', type: 'plane', position: { x: 0, y: -1, z: 0 }, normal: { x: 0, y: 1, z: 0 }, bounce: 0.3, friction: 0.1, enabled: false },
+  { id: 'sphere', type: 'sphere', position: { x: 0, y: 0, z: 0 }, radius: 0.5, bounce: 0.5, friction: 0.0, enabled: false },
+];
+engine.setColliders(colliders);
+const colliderFolder = simFolder.addFolder('Colliders');
+colliders.forEach((collider) => {
+  const folder = colliderFolder.addFolder(collider.id).close();
+  folder.add(collider, 'enabled').onChange((enabled: boolean) => engine.updateCollider(collider.id, { enabled }));
+  folder.add(collider, 'bounce', 0.0, 1.0, 0.01).onChange((bounce: number) => engine.updateCollider(collider.id, { bounce }));
+  folder.add(collider, 'friction', 0.0, 1.0, 0.01).onChange((friction: number) => engine.updateCollider(collider.id, { friction }));
+});
+
+const lifecycleParams = {
+  enabled: false,
+  minLifetime: 2.0,
+  maxLifetime: 4.0,
+  birthRate: 0,
+  emitter: 'target',
+  fade: false,
+  shrink: true,
+};
+const applyLifecycle = () =>
+  engine.setLifecycle({
+    enabled: lifecycleParams.enabled,
+    lifetime: [lifecycleParams.minLifetime, Math.max(lifecycleParams.minLifetime, lifecycleParams.maxLifetime)],
+    birthRate: lifecycleParams.birthRate,
+    emitter: lifecycleParams.emitter === 'point' ? { type: 'point', position: { x: 0, y: 0, z: 0 }, radius: 0.05 } : { type: 'target' },
+    fade: lifecycleParams.fade,
+    shrink: lifecycleParams.shrink,
+  });
+const lifecycleFolder = simFolder.addFolder('Lifecycle').close();
+lifecycleFolder.add(lifecycleParams, 'enabled').name('Enabled').onChange(applyLifecycle);
+lifecycleFolder.add(lifecycleParams, 'minLifetime', 0.1, 20.0, 0.1).name('Min Lifetime (s)').onChange(applyLifecycle);
+lifecycleFolder.add(lifecycleParams, 'maxLifetime', 0.1, 20.0, 0.1).name('Max Lifetime (s)').onChange(applyLifecycle);
+lifecycleFolder.add(lifecycleParams, 'birthRate', 0, 100000, 100).name('Birth Rate (/s)').onChange(applyLifecycle);
+lifecycleFolder.add(lifecycleParams, 'emitter', ['target', 'point']).name('Emitter').onChange(applyLifecycle);
+lifecycleFolder.add(lifecycleParams, 'fade').name('Fade Out').onChange(applyLifecycle);
+lifecycleFolder.add(lifecycleParams, 'shrink').name('Shrink').onChange(applyLifecycle);
 
 // --- 4. Instance Settings Folder ---
 const instanceFolder = gui.addFolder('Instance Settings').close();
@@ -173,6 +300,93 @@ instanceFolder
   .name('Enable Mouse Interaction')
   .onChange((value: boolean) => engine.useIntersect(value));
 
+const appearanceParams = { ...engine.getEngineStateSnapshot().appearance };
+instanceFolder
+  .add(appearanceParams, 'meshColors')
+  .name('Mesh Colors')
+  .onChange((meshColors: boolean) => engine.setParticleAppearance({ meshColors }));
+instanceFolder
+  .add(appearanceParams, 'orientation', ['velocity', 'surface'])
+  .name('Orientation')
+  .onChange((orientation: ParticleOrientation) => engine.setParticleAppearance({ orientation }));
+
+// --- Shader Hooks (example: tint the particles from a custom uniform) ---
+const hookParams = { tint: false, tintColor: '#ff8800' };
+const tintUniform = { value: new THREE.Color(hookParams.tintColor) };
+const hookFolder = instanceFolder.addFolder('Shader Hooks').close();
+hookFolder
+  .add(hookParams, 'tint')
+  .name('Tint Particles')
+  .onChange((enabled: boolean) =>
+    engine.setShaderHooks(
+      enabled
+        ? { snippets: { fragment_header: 'uniform vec3 uTint;', fragment_color: 'finalColor.rgb *= uTint;' }, uniforms: { uTint: tintUniform } }
+        : undefined,
+    ),
+  );
+hookFolder
+  .addColor(hookParams, 'tintColor')
+  .name('Tint Color')
+  .onChange((value: string) => tintUniform.value.set(value));
+
+// --- 5. Presets Folder ---
+const syncGuiWithEngineState = () => {
+  const state = engine.getEngineStateSnapshot();
+  meshParams.overallProgress = state.overallProgress;
+  simulationParams.velocityTraction = state.velocityTractionForce;
+  simulationParams.positionalTraction = state.positionalTractionForce;
+  simulationParams.maxRepelDistance = state.maxRepelDistance;
+  simulationParams.interactionMode = state.interactionMode;
+  simulationParams.interactionStrength = state.interactionStrength;
+  simulationParams.interactionFalloff = state.interactionFalloff;
+  instanceParams.geometryScale = state.instanceGeometryScale.x;
+  instanceParams.textureSize = state.textureSize;
+  instanceParams.useIntersect = state.useIntersect;
+  Object.assign(appearanceParams, state.appearance);
+  gui.controllersRecursive().forEach((controller) => controller.updateDisplay());
+};
+
+const presetFolder = gui.addFolder('Presets').close();
+presetFolder
+  .add(
+    {
+      exportPreset: () => {
+        const json = JSON.stringify(engine.exportPreset(), null, 2);
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+        link.download = 'ionian-preset.json';
+        link.click();
+        URL.revokeObjectURL(link.href);
+      },
+    },
+    'exportPreset',
+  )
+  .name('Export Preset');
+presetFolder
+  .add(
+    {
+      importPreset: () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = 'application/json';
+        input.onchange = async () => {
+          const file = input.files?.[0];
+          if (!file) return;
+          try {
+            await engine.applyPreset(await file.text());
+            syncGuiWithEngineState();
+            console.log(`Preset ${file.name} applied.`);
+          } catch (error) {
+            console.error(`Failed to apply preset ${file.name}:`, error);
+          }
+        };
+        input.click();
+      },
+    },
+    'importPreset',
+  )
+  .name('Import Preset');
+
 // --- Asset Loading ---
 
 // Load Meshes and Set Initial Sequence
@@ -252,10 +466,19 @@ const resizeHandler = () => {
   camera.updateProjectionMatrix();
   renderer.setSize(canvas.width, canvas.height);
 };
-function mouseEventHandler(event: MouseEvent) {
+// Active pointers in normalized device coordinates. A mouse is tracked while hovering, touches only while down.
+const pointers = new Map<PointerId, THREE.Vector2Like>();
+function pointerEventHandler(event: PointerEvent) {
+  if (event.pointerType !== 'mouse' && event.type === 'pointermove' && !pointers.has(event.pointerId)) return;
   const x = (event.clientX / window.innerWidth) * 2 - 1;
   const y = -((event.clientY / window.innerHeight) * 2 - 1);
-  engine.setPointerPosition({ x, y });
+  pointers.set(event.pointerId, { x, y });
+  engine.setPointerPositions(pointers);
+}
+function pointerEndHandler(event: PointerEvent) {
+  if (event.pointerType === 'mouse' && event.type === 'pointerup') return;
+  pointers.delete(event.pointerId);
+  engine.setPointerPositions(pointers);
 }
 
 // --- Stats ---
@@ -264,7 +487,10 @@ stats.showPanel(0);
 document.body.appendChild(stats.dom);
 
 // --- Event Listeners ---
-window.addEventListener('mousemove', mouseEventHandler);
+window.addEventListener('pointerdown', pointerEventHandler);
+window.addEventListener('pointermove', pointerEventHandler);
+window.addEventListener('pointerup', pointerEndHandler);
+window.addEventListener('pointercancel', pointerEndHandler);
 window.addEventListener('resize', resizeHandler);
 window.addEventListener('beforeunload', () => {
   console.log('Disposing resources...');
@@ -274,7 +500,10 @@ window.addEventListener('beforeunload', () => {
   renderer.dispose();
   controls.dispose();
   window.removeEventListener('resize', resizeHandler);
-  window.removeEventListener('mousemove', mouseEventHandler);
+  window.removeEventListener('pointerdown', pointerEventHandler);
+  window.removeEventListener('pointermove', pointerEventHandler);
+  window.removeEventListener('pointerup', pointerEndHandler);
+  window.removeEventListener('pointercancel', pointerEndHandler);
 });
 
 // --- Animation Loop ---
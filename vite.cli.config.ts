@@ -0,0 +1,28 @@
+import path from 'path';
+import { defineConfig, UserConfig } from 'vite';
+
+// Builds the ionian-bake command for Node. three and three-stdlib stay external, like in the library build; mitt is bundled.
+export default defineConfig(
+  (): UserConfig => ({
+    publicDir: false,
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, './src'),
+      },
+    },
+    ssr: {
+      noExternal: ['mitt'],
+    },
+    build: {
+      ssr: path.resolve(__dirname, 'src/cli/bakeAtlas.ts'),
+      outDir: 'dist/cli',
+      emptyOutDir: false,
+      sourcemap: true,
+      rollupOptions: {
+        output: {
+          banner: '#!/usr/bin/env node',
+        },
+      },
+    },
+  }),
+);
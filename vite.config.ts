@@ -28,6 +28,17 @@ export default defineConfig(({ mode }): UserConfig => {
         },
       },
     },
+    // The sampling worker keeps three external like the library. Its URL stays a plain relative string,
+    // so the bundler of the app recognizes `new Worker(new URL(...))` and builds the worker against its own three.
+    worker: {
+      format: 'es',
+      rollupOptions: {
+        external: ['three', 'three-stdlib'],
+      },
+    },
+    experimental: {
+      renderBuiltUrl: (filename, { hostType }) => (hostType === 'js' ? `./${filename}` : { relative: true }),
+    },
     build: {
       minify: 'terser',
       emptyOutDir: true,